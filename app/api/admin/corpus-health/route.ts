@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import {
+    CORPUS_HASH,
+    corpusDiagnostics,
+    corpusTemplateCount,
+    corpusTopicCounts,
+    loadProblemsList,
+} from "@/lib/problem-corpus";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/admin/corpus-health
+ * Reports what the deployed corpus contains and which files were left out.
+ * Compare `hash` with the one `pnpm corpus:build` prints for the repo to
+ * detect drift between production and the checked-in problems.
+ */
+export async function GET(request: NextRequest) {
+    if (!requireAdmin(request)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const diagnostics = corpusDiagnostics();
+
+    return NextResponse.json({
+        ok: diagnostics.length === 0,
+        hash: CORPUS_HASH,
+        problems: loadProblemsList().length,
+        templates: corpusTemplateCount(),
+        topics: corpusTopicCounts(),
+        diagnostics,
+    }, {
+        headers: { "Cache-Control": "no-store" },
+    });
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase-admin";
 import { updateElo, kFactor, voteToScore } from "@/lib/elo";
 import { requireAdmin } from "@/lib/admin-auth";
+import { ratingKey } from "@/lib/problem-corpus";
 
 export const runtime = "nodejs";
 
@@ -45,9 +46,9 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ ok: true, processed: 0 });
         }
 
-        // Get unique problem IDs involved
+        // Get unique rating keys involved (template variants are rated as their template)
         const ids = Array.from(
-            new Set((votes as VoteRow[]).flatMap((v) => [v.prev_problem_id, v.curr_problem_id]))
+            new Set((votes as VoteRow[]).flatMap((v) => [ratingKey(v.prev_problem_id), ratingKey(v.curr_problem_id)]))
         );
 
         // Load current ratings
@@ -91,8 +92,13 @@ export async function POST(request: NextRequest) {
 
         // Apply Elo updates in-memory
         for (const v of votes as VoteRow[]) {
-            const A = ratingMap.get(v.prev_problem_id)!;
-            const B = ratingMap.get(v.curr_problem_id)!;
+            const keyA = ratingKey(v.prev_problem_id);
+            const keyB = ratingKey(v.curr_problem_id);
+            // Two variants of one template say nothing about its rating
+            if (keyA === keyB) continue;
+
+            const A = ratingMap.get(keyA)!;
+            const B = ratingMap.get(keyB)!;
 
             // Score for A (prev problem)
             const sA = voteToScore(v.vote);
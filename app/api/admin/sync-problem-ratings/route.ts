@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase-admin";
-import { loadProblemsList } from "@/lib/problem-corpus";
+import { loadProblemsList, ratingKey } from "@/lib/problem-corpus";
 import { seedToRating } from "@/lib/level";
 import { requireAdmin } from "@/lib/admin-auth";
 
@@ -10,6 +10,7 @@ export const runtime = "nodejs";
  * POST /api/admin/sync-problem-ratings
  * Seeds problem_ratings table from the JSON corpus.
  * Maps seed_difficulty -> initial Elo rating.
+ * Template variants share one row, keyed by the template id.
  * Call after adding new problems to the repo.
  */
 export async function POST(request: NextRequest) {
@@ -20,15 +21,19 @@ export async function POST(request: NextRequest) {
     try {
         const problems = loadProblemsList();
 
-        // Build upsert rows: use seed_difficulty if present, else difficulty
-        const rows = problems.map((p) => {
-            const seed = (p as { seed_difficulty?: number }).seed_difficulty ?? p.difficulty ?? 1;
-            return {
-                problem_id: p.id,
-                rating: seedToRating(Number(seed) || 1),
+        // Build upsert rows from seed_difficulty
+        const rowsByKey = new Map<string, { problem_id: string; rating: number; updated_at: string }>();
+        for (const p of problems) {
+            const key = ratingKey(p.id);
+            if (rowsByKey.has(key)) continue;
+
+            rowsByKey.set(key, {
+                problem_id: key,
+                rating: seedToRating(p.seed_difficulty),
                 updated_at: new Date().toISOString(),
-            };
-        });
+            });
+        }
+        const rows = Array.from(rowsByKey.values());
 
         // Batch upsert (chunk to avoid payload limits)
         const chunkSize = 500;
@@ -3,6 +3,7 @@ import { supabaseAdmin } from "@/lib/supabase-admin";
 import { loadProblemsList } from "@/lib/problem-corpus";
 import { stripLatex, topicToSlug } from "@/lib/search-utils";
 import { requireAdmin } from "@/lib/admin-auth";
+import { sourceLabel } from "@/lib/provenance";
 
 export const runtime = "nodejs";
 
@@ -23,11 +24,16 @@ export async function POST(request: NextRequest) {
             id: p.id,
             topic: p.topic,
             topic_slug: topicToSlug(p.topic),
+            skills: p.skills ?? [],
             prompt: p.prompt,
             prompt_plain: stripLatex(p.prompt),
-            seed_difficulty: p.seed_difficulty ?? p.difficulty ?? 1,
+            // Indexed alongside the English prompt so searches in any language find the problem
+            translations_plain: Object.values(p.translations ?? {})
+                .map((t) => stripLatex(t.prompt))
+                .join(" "),
+            seed_difficulty: p.seed_difficulty,
             status: p.status ?? "community",
-            source: p.source,
+            source: sourceLabel(p.provenance),
             license: p.license,
             author: p.author,
             solution_video_url: p.solution_video_url ?? null,
@@ -3,28 +3,46 @@ import { z } from "zod";
 import { getSessionHash } from "@/lib/session";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { checkDualRateLimit, getClientIP } from "@/lib/rate-limit";
-import { loadProblemsMap } from "@/lib/problem-corpus";
-import type { Problem } from "@/data/schema/problem.schema";
+import { loadProblemsMap, ratingKey } from "@/lib/problem-corpus";
+import type { Answer } from "@/data/schema/problem.schema";
+import { exactAnswerMatches } from "@/lib/answers/exact-text";
+import { numberMatches, numericInputValues } from "@/lib/answers/numeric";
+import { isLowestTerms, parseRational, rationalEquals } from "@/lib/answers/rational";
+import { expressionsEquivalent, parseExpression } from "@/lib/answers/math-expr";
+import { numberSetsMatch, parseNumberSet, parseSetElement, type SetElement } from "@/lib/answers/number-set";
+import { intervalUnionsEqual, parseIntervalUnion } from "@/lib/answers/interval";
+import { resolveChoiceIndex } from "@/lib/answers/choice";
+import { parseTuple, tuplesMatch } from "@/lib/answers/tuple";
+import { matricesMatch, parseMatrix, parseVector } from "@/lib/answers/matrix";
+import { complexClose, parseComplex } from "@/lib/answers/complex";
+import { gradeQuantity } from "@/lib/answers/units";
+import { problemParts } from "@/lib/answers/parts";
 
 // IMPORTANT: fs/path require Node runtime (not Edge)
 export const runtime = "nodejs";
 
-type StoredOutcome = "correct" | "wrong" | "giveup";
+// "partial": some but not all parts of a multi-part problem were right
+// "self_assessed": a free_response answer the learner graded against its rubric
+type StoredOutcome = "correct" | "partial" | "wrong" | "giveup" | "self_assessed";
+
+const AnswerValueSchema = z.union([z.string().max(200), z.number().finite()]);
 
 /**
  * Accepts explicit outcome so "giveup" is unambiguous and safe.
  * - submit: answer required (non-empty if string)
  * - giveup: answer optional (ignored)
+ * - self_assess: free_response problems only; one flag per rubric item met
  */
 const AttemptSchema = z.discriminatedUnion("outcome", [
     z
         .object({
             outcome: z.literal("submit"),
             problemId: z.string().min(1).max(100),
+            // One value per part for multi-part problems (blank parts count as wrong)
             answer: z
-                .union([z.string().max(200), z.number().finite()])
+                .union([AnswerValueSchema, z.array(AnswerValueSchema).min(2).max(8)])
                 .refine(
-                    (v) => (typeof v === "number" ? true : v.trim().length > 0),
+                    (v) => (Array.isArray(v) ? v : [v]).some((a) => typeof a === "number" || a.trim().length > 0),
                     { message: "Answer is required" }
                 ),
             timeMs: z.number().int().min(0).max(3600000),
@@ -36,35 +54,124 @@ const AttemptSchema = z.discriminatedUnion("outcome", [
             outcome: z.literal("giveup"),
             problemId: z.string().min(1).max(100),
             // allow empty/missing answer for giveup (we ignore it anyway)
-            answer: z.union([z.string().max(200), z.number().finite()]).optional(),
+            answer: z.union([AnswerValueSchema, z.array(AnswerValueSchema).max(8)]).optional(),
+            timeMs: z.number().int().min(0).max(3600000),
+        })
+        .strict(),
+
+    z
+        .object({
+            outcome: z.literal("self_assess"),
+            problemId: z.string().min(1).max(100),
+            rubric: z.array(z.boolean()).min(1).max(10),
             timeMs: z.number().int().min(0).max(3600000),
         })
         .strict(),
 ]);
 
-function checkAnswer(problem: Problem, userAnswer: string | number): boolean {
-    const { answer } = problem;
+interface AnswerCheck {
+    correct: boolean;
+    // Shown to the learner when a wrong answer deserves an explanation
+    feedback?: string;
+}
+
+/**
+ * @param seed - The part's choice-shuffle seed (see problemParts)
+ * @param sessionHash - Needed to resolve per-session choice option ids
+ */
+function checkAnswer(answer: Answer, seed: string, userAnswer: string | number, sessionHash: string): AnswerCheck {
+    if (typeof userAnswer === "string" && !userAnswer.trim()) return { correct: false };
 
     if (answer.kind === "exact") {
-        return (
-            String(userAnswer).trim().toLowerCase() ===
-            String(answer.value).trim().toLowerCase()
-        );
+        return { correct: exactAnswerMatches(answer, userAnswer) };
     }
 
     if (answer.kind === "number") {
-        const userNum =
-            typeof userAnswer === "number"
-                ? userAnswer
-                : Number(String(userAnswer).trim());
+        return { correct: numericInputValues(userAnswer).some((value) => numberMatches(answer, value)) };
+    }
 
-        if (!Number.isFinite(userNum)) return false;
+    if (answer.kind === "fraction") {
+        const user = parseRational(userAnswer);
+        if (!user) return { correct: false };
+
+        // Lowest terms means a reduced fraction (or a plain integer), not a decimal
+        if (answer.require_lowest_terms) {
+            if (user.form === "decimal") return { correct: false };
+            if (user.form === "fraction" && !isLowestTerms(user)) return { correct: false };
+        }
+
+        return { correct: rationalEquals(user, { num: answer.numerator, den: answer.denominator }) };
+    }
+
+    if (answer.kind === "expression") {
+        const expected = parseExpression(answer.value, answer.variables);
+        const user = parseExpression(String(userAnswer), answer.variables);
+        if (!expected || !user) return { correct: false };
+
+        return { correct: expressionsEquivalent(expected, user, answer.variables) };
+    }
+
+    if (answer.kind === "set") {
+        const user = parseNumberSet(String(userAnswer));
+        if (!user) return { correct: false };
+
+        const expected = answer.values.map((v) => parseSetElement(v) as SetElement);
+        return { correct: numberSetsMatch(expected, user, answer) };
+    }
+
+    if (answer.kind === "interval") {
+        const expected = parseIntervalUnion(answer.value, answer.variable);
+        const user = parseIntervalUnion(String(userAnswer), answer.variable);
+        if (!expected || !user) return { correct: false };
+
+        return { correct: intervalUnionsEqual(expected, user) };
+    }
 
-        const tolerance = answer.tolerance ?? 0;
-        return Math.abs(userNum - Number(answer.value)) <= tolerance;
+    if (answer.kind === "choice") {
+        // Client submits the opaque option id it was served by /api/problems
+        const index = resolveChoiceIndex(String(userAnswer), answer.options.length, sessionHash, seed);
+        return { correct: index === answer.correct };
     }
 
-    return false;
+    if (answer.kind === "tuple") {
+        const user = parseTuple(String(userAnswer));
+        if (!user) return { correct: false };
+
+        const expected = answer.values.map((v) => parseSetElement(v) as SetElement);
+        return { correct: tuplesMatch(expected, user, answer.tolerance) };
+    }
+
+    if (answer.kind === "vector") {
+        const user = parseVector(String(userAnswer));
+        if (!user) return { correct: false };
+
+        const expected = answer.values.map((v) => parseSetElement(v) as SetElement);
+        return { correct: tuplesMatch(expected, user, answer.tolerance) };
+    }
+
+    if (answer.kind === "matrix") {
+        const user = parseMatrix(String(userAnswer));
+        if (!user) return { correct: false };
+
+        const expected = answer.values.map((row) => row.map((v) => parseSetElement(v) as SetElement));
+        return { correct: matricesMatch(expected, user, answer.tolerance) };
+    }
+
+    if (answer.kind === "complex") {
+        const user = parseComplex(userAnswer);
+        if (!user) return { correct: false };
+
+        return { correct: complexClose(answer, user, answer.tolerance) };
+    }
+
+    if (answer.kind === "quantity") {
+        // Explains missing or incompatible units instead of a bare "wrong"
+        return gradeQuantity(answer, userAnswer);
+    }
+
+    // free_response is self-assessed (outcome "self_assess"), never auto-graded
+
+    return { correct: false };
 }
 
 export async function POST(request: NextRequest) {
@@ -116,17 +223,55 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: "Problem not found" }, { status: 404 });
         }
 
-        // Determine correctness/outcome
-        let correct = false;
+        const parts = problemParts(problem);
+        const multiPart = problem.parts !== undefined;
+
+        // Determine correctness/outcome; score is the fraction of parts answered correctly
+        let score = 0;
+        let feedback: string | undefined;
+        let partResults: (AnswerCheck & { label: string | null })[] = [];
         let outcome: StoredOutcome = "wrong";
 
+        // Free-response answers can only be self-assessed, and nothing else can be
+        const freeResponse = problem.answer?.kind === "free_response" ? problem.answer : null;
+        if (parsed.data.outcome === "submit" && freeResponse) {
+            return NextResponse.json({ error: "Free-response answers are self-assessed" }, { status: 400 });
+        }
+
         if (parsed.data.outcome === "giveup") {
-            correct = false;
             outcome = "giveup";
+        } else if (parsed.data.outcome === "self_assess") {
+            const { rubric } = parsed.data;
+            if (!freeResponse) {
+                return NextResponse.json({ error: "Only free-response answers are self-assessed" }, { status: 400 });
+            }
+            if (rubric.length !== freeResponse.rubric.length) {
+                return NextResponse.json(
+                    { error: `Expected ${freeResponse.rubric.length} rubric flags, one per item` },
+                    { status: 400 }
+                );
+            }
+            score = rubric.filter(Boolean).length / rubric.length;
+            outcome = "self_assessed";
         } else {
-            correct = checkAnswer(problem, parsed.data.answer);
-            outcome = correct ? "correct" : "wrong";
+            const { answer } = parsed.data;
+            if (Array.isArray(answer) !== multiPart || (Array.isArray(answer) && answer.length !== parts.length)) {
+                return NextResponse.json(
+                    { error: multiPart ? `Expected ${parts.length} answers, one per part` : "Expected a single answer" },
+                    { status: 400 }
+                );
+            }
+
+            const answers = Array.isArray(answer) ? answer : [answer];
+            partResults = parts.map((part, i) => ({
+                label: part.label,
+                ...checkAnswer(part.answer, part.seed, answers[i], sessionHash),
+            }));
+            score = partResults.filter((r) => r.correct).length / parts.length;
+            feedback = multiPart ? undefined : partResults[0].feedback;
+            outcome = score === 1 ? "correct" : score > 0 ? "partial" : "wrong";
         }
+        const correct = outcome === "correct";
 
         // Store attempt (server-side insert)
         // Use SSR client to get authenticated user
@@ -137,11 +282,25 @@ export async function POST(request: NextRequest) {
 
         // Use admin client for insert (RLS blocks anon key inserts)
         const { supabaseAdmin } = await import("@/lib/supabase-admin");
+
+        // Hints revealed during this visit to the problem (see /api/hint) discount the rating update
+        let hintsUsed = 0;
+        if (problem.hints) {
+            const { count } = await supabaseAdmin
+                .from("hint_reveals")
+                .select("hint_index", { count: "exact", head: true })
+                .eq("session_hash", sessionHash)
+                .eq("problem_id", problemId);
+            hintsUsed = count ?? 0;
+        }
+
         const { error: dbError } = await supabaseAdmin.from("attempts").insert({
             session_hash: sessionHash,
             user_id: user?.id ?? null, // Link to user if logged in
             problem_id: problemId,
             outcome,
+            score,
+            hints_used: hintsUsed,
             time_ms: timeMs,
             client_version: "1.0.0",
         });
@@ -149,13 +308,23 @@ export async function POST(request: NextRequest) {
         if (dbError) {
             console.error("Failed to store attempt:", dbError);
             // Don't block the user flow if analytics insert fails
+        } else {
+            // Reveals belong to one visit of a problem and are now kept as hints_used.
+            // Resolving the problem ends the visit (a wrong answer can still be retried
+            // with the same hints), and an attempt at another problem ends all others,
+            // so coming back later starts without hints.
+            let staleReveals = supabaseAdmin.from("hint_reveals").delete().eq("session_hash", sessionHash);
+            if (outcome === "wrong" || outcome === "partial") {
+                staleReveals = staleReveals.neq("problem_id", problemId);
+            }
+            const { error: clearError } = await staleReveals;
+            if (clearError) console.error("Failed to clear hint reveals:", clearError);
         }
 
         // Update User Elo if logged in and outcome is decisive
-        if (user && outcome !== "giveup") {
-            // Import admin client for rating updates (bypasses RLS)
-            const { supabaseAdmin } = await import("@/lib/supabase-admin");
-            const { expectedScore, kFactor } = await import("@/lib/elo");
+        // Self-assessed scores are unverified, so they don't move Elo
+        if (user && outcome !== "giveup" && outcome !== "self_assessed") {
+            const { expectedScore, hintCredit, kFactor } = await import("@/lib/elo");
 
             // Get current user rating
             const { data: userData } = await supabaseAdmin
@@ -165,20 +334,22 @@ export async function POST(request: NextRequest) {
                 .single();
 
             // Get problem rating (fallback to seed if no dynamic rating)
+            // Template variants are rated as their template
             const { data: problemData } = await supabaseAdmin
                 .from("problem_ratings")
                 .select("rating")
-                .eq("problem_id", problemId)
+                .eq("problem_id", ratingKey(problemId))
                 .single();
 
             const userRating = userData?.rating ?? 1000;
             const userAttempts = userData?.n_attempts ?? 0;
             // Use problem seed difficulty mapped to rating if no dynamic rating
             const { seedToRating } = await import("@/lib/level");
-            const problemRating = problemData?.rating ?? seedToRating(problem.seed_difficulty ?? problem.difficulty ?? 5);
+            const problemRating = problemData?.rating ?? seedToRating(problem.seed_difficulty);
 
             // Calculate new rating
-            const actualScore = outcome === "correct" ? 1 : 0;
+            // A hinted answer counts as a partial score
+            const actualScore = score * hintCredit(hintsUsed, problem.hints?.length ?? 0, userRating, problemRating);
             const expected = expectedScore(userRating, problemRating);
             const K = kFactor(userAttempts); // High K for new users
             const delta = Math.round(K * (actualScore - expected));
@@ -202,7 +373,13 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        return NextResponse.json({ correct, outcome });
+        return NextResponse.json({
+            correct,
+            outcome,
+            score,
+            feedback,
+            ...(multiPart ? { parts: partResults } : {}),
+        });
     } catch (error) {
         console.error("Attempt error:", error);
         return NextResponse.json({ error: "Internal server error" }, { status: 500 });
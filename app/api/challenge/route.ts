@@ -9,7 +9,8 @@ export const runtime = "nodejs";
 const ChallengeSchema = z
     .object({
         problemId: z.string().min(1).max(100),
-        userAnswer: z.string().min(1).max(500),
+        // Multi-part answers arrive one entry per part, each within the single-answer limit
+        userAnswer: z.union([z.string().min(1).max(500), z.array(z.string().min(1).max(500)).min(2).max(8)]),
         expectedAnswer: z.string().min(1).max(500),
         reason: z.string().max(1000).optional(),
     })
@@ -56,6 +57,7 @@ export async function POST(request: NextRequest) {
         }
 
         const { problemId, userAnswer, expectedAnswer, reason } = parsed.data;
+        const answerText = Array.isArray(userAnswer) ? userAnswer.join("; ") : userAnswer;
 
         // Insert challenge (upsert to prevent duplicates)
         const supabase = createServerClient();
@@ -63,7 +65,7 @@ export async function POST(request: NextRequest) {
             {
                 problem_id: problemId,
                 session_hash: sessionHash,
-                user_answer: userAnswer,
+                user_answer: answerText,
                 expected_answer: expectedAnswer,
                 reason: reason || null,
                 status: "pending",
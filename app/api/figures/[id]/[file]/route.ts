@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "node:crypto";
+import { problemFigure } from "@/lib/problem-corpus";
+import { FIGURE_FILE_PATTERN } from "@/lib/figures";
+
+// IMPORTANT: node:crypto requires Node runtime (not Edge)
+export const runtime = "nodejs";
+
+/**
+ * GET /api/figures/[id]/[file]
+ * Serve an SVG figure listed in a problem's `figures`.
+ * Figures are compiled into the corpus (and checked) at build time,
+ * and sandboxed with a strict CSP.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; file: string }> }
+) {
+    const { id, file } = await params;
+
+    if (!/^aom_[a-z0-9_]+$/.test(id) || !FIGURE_FILE_PATTERN.test(file)) {
+        return NextResponse.json({ error: "Invalid figure" }, { status: 400 });
+    }
+
+    // Only files the problem lists are compiled, so arbitrary SVGs in data/ can't be served
+    const svg = problemFigure(id, file);
+    if (svg === undefined) {
+        return NextResponse.json({ error: "Figure not found" }, { status: 404 });
+    }
+
+    const etag = `"${crypto.createHash("sha256").update(svg).digest("hex").slice(0, 16)}"`;
+    const headers = {
+        "Content-Type": "image/svg+xml; charset=utf-8",
+        // Figures change rarely; the ETag lets edits through after revalidation
+        "Cache-Control": "public, max-age=604800, stale-while-revalidate=86400",
+        ETag: etag,
+        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+        "X-Content-Type-Options": "nosniff",
+    };
+
+    if (request.headers.get("if-none-match") === etag) {
+        return new NextResponse(null, { status: 304, headers });
+    }
+    return new NextResponse(svg, { headers });
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionHash } from "@/lib/session";
+import { checkDualRateLimit, getClientIP } from "@/lib/rate-limit";
+import { loadProblemsMap } from "@/lib/problem-corpus";
+
+export const runtime = "nodejs";
+
+const HintSchema = z
+    .object({
+        problemId: z.string().min(1).max(100),
+    })
+    .strict();
+
+/**
+ * POST /api/hint
+ * Reveal the next hint for a problem in the current session.
+ * Reveals are recorded until the attempt that ends this visit to the problem,
+ * so every attempt until then is credited accordingly.
+ * Returns every hint revealed so far, so a reload doesn't lose earlier ones.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const sessionHash = await getSessionHash();
+        if (!sessionHash) {
+            return NextResponse.json(
+                { error: "Session required. Please refresh the page." },
+                { status: 401 }
+            );
+        }
+
+        // Reuse attempt bucket - hints are revealed while solving
+        const ip = getClientIP(request);
+        const rl = await checkDualRateLimit(ip, sessionHash, "attempt");
+        if (!rl.success) {
+            return NextResponse.json(
+                { error: "Too many requests. Please slow down." },
+                { status: 429 }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+        if (!body) {
+            return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+        }
+
+        const parsed = HintSchema.safeParse(body);
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: "Invalid request", details: parsed.error.issues },
+                { status: 400 }
+            );
+        }
+
+        const { problemId } = parsed.data;
+        const problem = loadProblemsMap().get(problemId);
+        if (!problem) {
+            return NextResponse.json({ error: "Problem not found" }, { status: 404 });
+        }
+
+        const hints = problem.hints ?? [];
+        if (hints.length === 0) {
+            return NextResponse.json({ error: "This problem has no hints" }, { status: 404 });
+        }
+
+        const { supabaseAdmin } = await import("@/lib/supabase-admin");
+        const { count, error: countError } = await supabaseAdmin
+            .from("hint_reveals")
+            .select("hint_index", { count: "exact", head: true })
+            .eq("session_hash", sessionHash)
+            .eq("problem_id", problemId);
+
+        if (countError) {
+            console.error("Failed to count hint reveals:", countError);
+            return NextResponse.json({ error: "Failed to reveal hint" }, { status: 500 });
+        }
+
+        const revealed = Math.min(count ?? 0, hints.length);
+        if (revealed < hints.length) {
+            // Unique (session_hash, problem_id, hint_index) makes double clicks harmless
+            const { error: insertError } = await supabaseAdmin.from("hint_reveals").upsert(
+                {
+                    session_hash: sessionHash,
+                    problem_id: problemId,
+                    hint_index: revealed,
+                },
+                { onConflict: "session_hash,problem_id,hint_index", ignoreDuplicates: true }
+            );
+
+            if (insertError) {
+                console.error("Failed to record hint reveal:", insertError);
+                return NextResponse.json({ error: "Failed to reveal hint" }, { status: 500 });
+            }
+        }
+
+        const shown = Math.min(revealed + 1, hints.length);
+        return NextResponse.json({
+            hints: hints.slice(0, shown),
+            remaining: hints.length - shown,
+        });
+    } catch (error) {
+        console.error("Hint error:", error);
+        return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+}
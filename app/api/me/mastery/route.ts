@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { loadProblemsMap } from "@/lib/problem-corpus";
+import { computeMastery } from "@/lib/mastery";
+
+export const runtime = "nodejs";
+
+// Older attempts barely move the estimate, so cap the history we read
+const MAX_ATTEMPTS = 2000;
+
+/**
+ * GET /api/me/mastery
+ * Per-skill mastery estimates for the signed-in user.
+ */
+export async function GET() {
+    const supabase = await createSupabaseServerClient();
+    const {
+        data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { data: attempts, error } = await supabaseAdmin
+            .from("attempts")
+            .select("problem_id, outcome, score")
+            .eq("user_id", user.id)
+            .order("created_at", { ascending: false })
+            .limit(MAX_ATTEMPTS);
+
+        if (error) {
+            console.error("mastery query error:", error);
+            return NextResponse.json({ error: "Failed to load attempts" }, { status: 500 });
+        }
+
+        const problems = loadProblemsMap();
+        const skills = computeMastery(attempts ?? [], (id) => problems.get(id)?.skills);
+
+        return NextResponse.json({ skills }, {
+            headers: { "Cache-Control": "private, no-cache" },
+        });
+    } catch (error) {
+        console.error("mastery error:", error);
+        return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+}
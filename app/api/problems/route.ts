@@ -1,15 +1,26 @@
-import { NextResponse } from "next/server";
-import { loadProblemsList } from "@/lib/problem-corpus";
+import { NextRequest, NextResponse } from "next/server";
+import { loadProblemsList, ratingKey } from "@/lib/problem-corpus";
 import { supabaseAdmin } from "@/lib/supabase-admin";
 import { ratingToLevel, seedToRating } from "@/lib/level";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { toAnswerFormat } from "@/lib/answers/answer-format";
+import { problemParts } from "@/lib/answers/parts";
+import { getSessionHash } from "@/lib/session";
+import { localizeProblem, pickLocale } from "@/lib/locale";
 
 export const runtime = "nodejs";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
         const problems = loadProblemsList();
 
+        // ?lang= overrides Accept-Language; untranslated problems stay in English
+        const langParam = request.nextUrl.searchParams.get("lang");
+        const acceptLanguage = request.headers.get("accept-language");
+
+        // Seeds per-session choice option order (see toAnswerFormat)
+        const sessionHash = await getSessionHash();
+
         // Get authenticated user (if any)
         const supabase = await createSupabaseServerClient();
         const {
@@ -38,7 +49,7 @@ export async function GET() {
         let userRating = 1000;
 
         if (user) {
-            // Get solved problem IDs
+            // Get solved problem IDs (self-assessed attempts are unverified, so never solve a problem)
             const { data: solvedProblems } = await supabaseAdmin
                 .from("attempts")
                 .select("problem_id")
@@ -63,14 +74,33 @@ export async function GET() {
 
         // Merge problems with live ratings and solved status (exclude answers)
         const safeProblems = problems.map((problem) => {
-            // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            const { answer, ...rest } = problem;
-            const liveRating = ratingsMap.get(problem.id);
-            const problemRating = liveRating?.rating ?? seedToRating(problem.seed_difficulty ?? problem.difficulty ?? 5);
+            const { answer, parts, hints, solution, translations, ...rest } = problem;
+            const text = localizeProblem(
+                problem,
+                pickLocale(langParam, acceptLanguage, Object.keys(translations ?? {}))
+            );
+            const formats = problemParts(problem).map((part) => ({
+                label: part.label,
+                prompt: part.prompt,
+                answer_format: toAnswerFormat(part.answer, part.seed, sessionHash),
+            }));
+            // Template variants share their template's rating
+            const liveRating = ratingsMap.get(ratingKey(problem.id));
+            const problemRating = liveRating?.rating ?? seedToRating(problem.seed_difficulty);
 
             return {
                 ...rest,
+                locale: text.locale,
+                prompt: text.prompt,
+                prompt_latex: text.prompt_latex,
                 hasAnswer: true,
+                // Multi-part problems get one format per part instead
+                ...(answer ? { answer_format: formats[0].answer_format } : {}),
+                ...(parts ? { parts: formats } : {}),
+                // Hint text is only revealed one at a time via /api/hint
+                hint_count: hints?.length ?? 0,
+                // Written solutions are fetched from /api/solution when needed
+                has_solution: solution !== undefined,
                 rating: problemRating,
                 n_votes: liveRating?.n_votes ?? 0,
                 level: ratingToLevel(problemRating),
@@ -84,8 +114,9 @@ export async function GET() {
             isAuthenticated: !!user,
         }, {
             headers: {
-                // No cache when personalized
-                "Cache-Control": user ? "private, no-cache" : "public, max-age=30, stale-while-revalidate=60",
+                // No cache when personalized (user data or per-session option order)
+                "Cache-Control": user || sessionHash ? "private, no-cache" : "public, max-age=30, stale-while-revalidate=60",
+                Vary: "Accept-Language",
             },
         });
     } catch (error) {
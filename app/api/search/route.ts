@@ -5,12 +5,18 @@ import { z } from "zod";
 export const runtime = "edge";
 
 // Input validation schema
-const SearchParamsSchema = z.object({
-    q: z.string().min(1).max(200),
-    topic: z.string().max(60).optional(),
-    limit: z.coerce.number().int().min(1).max(20).default(20),
-    offset: z.coerce.number().int().min(0).max(2000).default(0),
-});
+// A skill filter may be used on its own, without a query
+const SearchParamsSchema = z
+    .object({
+        q: z.string().max(200).default(""),
+        topic: z.string().max(60).optional(),
+        skill: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/).max(60).optional(),
+        limit: z.coerce.number().int().min(1).max(20).default(20),
+        offset: z.coerce.number().int().min(0).max(2000).default(0),
+    })
+    .refine((p) => p.q.trim().length > 0 || p.skill !== undefined, {
+        message: "Either q or skill is required",
+    });
 
 // Simple in-memory rate limiting (per-instance)
 const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
@@ -50,6 +56,7 @@ export async function GET(request: NextRequest) {
     const rawParams = {
         q: searchParams.get("q") ?? "",
         topic: searchParams.get("topic") ?? undefined,
+        skill: searchParams.get("skill") ?? undefined,
         limit: searchParams.get("limit") ?? undefined,
         offset: searchParams.get("offset") ?? undefined,
     };
@@ -62,7 +69,7 @@ export async function GET(request: NextRequest) {
         );
     }
 
-    const { q, topic, limit, offset } = parsed.data;
+    const { q, topic, skill, limit, offset } = parsed.data;
 
     try {
         // Create anon client for RPC call
@@ -74,6 +81,7 @@ export async function GET(request: NextRequest) {
         const { data, error } = await supabase.rpc("search_problems", {
             q,
             topic_filter: topic ?? null,
+            skill_filter: skill ?? null,
             lim: limit,
             off: offset,
         });
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { loadProblemsMap } from "@/lib/problem-corpus";
+import { problemParts } from "@/lib/answers/parts";
+import { localizeProblem, pickLocale } from "@/lib/locale";
 
 export const runtime = "nodejs";
 
@@ -27,21 +29,35 @@ export async function GET(
         );
     }
 
+    // ?lang= overrides Accept-Language; falls back to English
+    const locale = pickLocale(
+        request.nextUrl.searchParams.get("lang"),
+        request.headers.get("accept-language"),
+        Object.keys(problem.translations ?? {})
+    );
+    const text = localizeProblem(problem, locale);
+
     // Return full problem INCLUDING answer for solution page
     return NextResponse.json({
         id: problem.id,
         topic: problem.topic,
-        difficulty: problem.seed_difficulty ?? problem.difficulty ?? 1,
-        prompt: problem.prompt,
-        prompt_latex: problem.prompt_latex,
+        difficulty: problem.seed_difficulty,
+        locale: text.locale,
+        prompt: text.prompt,
+        prompt_latex: text.prompt_latex,
+        figures: problem.figures,
         answer: problem.answer,
+        // Multi-part problems: labelled parts with their answers
+        parts: problem.parts && problemParts(problem).map(({ label, prompt, answer }) => ({ label, prompt, answer })),
+        solution: text.solution,
         solution_video_url: problem.solution_video_url,
-        source: problem.source,
+        provenance: problem.provenance,
         license: problem.license,
         author: problem.author,
     }, {
         headers: {
             "Cache-Control": "public, max-age=300, stale-while-revalidate=600",
+            Vary: "Accept-Language",
         },
     });
 }
@@ -5,24 +5,58 @@ import type { KeyboardEvent } from "react";
 import katex from "katex";
 import "katex/dist/katex.min.css";
 import Link from "next/link";
+import { ProblemFigures, type Figure } from "@/components/ProblemFigures";
+import type { AnswerFormat } from "@/lib/answers/answer-format";
+import { exprToLatex, parseExpression } from "@/lib/answers/math-expr";
+import { matrixToLatex, parseMatrix, parseVector, vectorToLatex } from "@/lib/answers/matrix";
+import { numericInputValues } from "@/lib/answers/numeric";
+import { renderMarkdown } from "@/lib/markdown";
+import { prerequisitesMet, type SkillMastery } from "@/lib/mastery";
 
 interface Problem {
     id: string;
     topic: string;
-    difficulty: number;
+    seed_difficulty: number;
     prompt: string;
+    figures?: Figure[];
     hasAnswer?: boolean;
+    answer_format?: AnswerFormat;
+    parts?: ProblemPart[];
+    skills?: string[];
+    hint_count?: number;
+    has_solution?: boolean;
     solution_video_url?: string;
     rating?: number;
     solved?: boolean;
 }
 
+interface ProblemPart {
+    label: string;
+    prompt: string;
+    answer_format: AnswerFormat;
+}
+
+interface PartResult {
+    label: string;
+    correct: boolean;
+    feedback?: string;
+}
+
 interface AttemptResult {
     correct: boolean;
+    score: number;
+    feedback?: string;
+    parts?: PartResult[];
 }
 
-type GameState = "loading" | "onboarding" | "solving" | "feedback" | "watching" | "voting" | "complete";
-type Outcome = "correct" | "wrong" | "giveup";
+// "assessing": a free-response answer is being compared with the model solution
+type GameState = "loading" | "onboarding" | "solving" | "assessing" | "feedback" | "watching" | "voting" | "complete";
+type Outcome = "correct" | "wrong" | "giveup" | "self_assessed";
+
+interface ModelSolution {
+    model_solution: string;
+    rubric: string[];
+}
 type Vote = "easier" | "same" | "harder";
 
 
@@ -37,6 +71,20 @@ const LEVEL_DESCRIPTIONS: { range: [number, number]; label: string; examples: st
     { range: [19, 20], label: "Competition / Advanced", examples: "Olympiad-style, proofs, number theory" },
 ];
 
+/** Input label for free-text answers, tailored to the answer kind. */
+function answerInputLabel(format: AnswerFormat | undefined): string {
+    if (format?.kind === "expression" && format.variables.length > 0) {
+        return `Enter an expression in ${format.variables.join(", ")} (plain text or LaTeX)`;
+    }
+    if (format?.kind === "matrix") {
+        return `Enter a ${format.rows} × ${format.cols} matrix as [[1,2],[3,4]] or LaTeX pmatrix`;
+    }
+    if (format?.kind === "vector") {
+        return `Enter a vector with ${format.size} entries, e.g. [1, 2, 3]`;
+    }
+    return "Enter your answer (plain text or LaTeX)";
+}
+
 /** Escape text so it is safe to inject as HTML. */
 function escapeHtml(s: string): string {
     return s.replace(/[&<>"']/g, (ch) => {
@@ -103,15 +151,174 @@ function MathInline({ text, className }: { text: string; className?: string }) {
     return <span className={className} dangerouslySetInnerHTML={{ __html: html }} />;
 }
 
+/**
+ * One answer input with a live preview of how the grader reads it.
+ * Multi-part problems render one per part.
+ */
+function AnswerField({
+    format,
+    value,
+    onChange,
+    onKeyDown,
+    disabled,
+    autoFocus,
+}: {
+    format: AnswerFormat | undefined;
+    value: string;
+    onChange: (value: string) => void;
+    onKeyDown: (e: KeyboardEvent<HTMLInputElement>) => void;
+    disabled: boolean;
+    autoFocus?: boolean;
+}) {
+    const answerPreviewHtml = useMemo(() => {
+        // Show expressions as the grader understands them, e.g. "2(x+1)" -> 2\left(x + 1\right)
+        if (format?.kind === "expression") {
+            const parsed = parseExpression(value, format.variables);
+            if (parsed) return renderMathSafe(exprToLatex(parsed));
+        }
+        if (format?.kind === "matrix") {
+            const parsed = parseMatrix(value);
+            if (parsed) return renderMathSafe(matrixToLatex(parsed));
+        }
+        if (format?.kind === "vector") {
+            const parsed = parseVector(value);
+            if (parsed) return renderMathSafe(vectorToLatex(parsed));
+        }
+        return renderMathSafe(value);
+    }, [value, format]);
+
+    // Show the value a numeric answer is graded as, e.g. "3π/4" = 2.35619
+    // ("25%" may be graded as 25 or 0.25, so it gets no preview)
+    const answerValue = useMemo(() => {
+        if (format?.kind !== "number") return null;
+        const values = numericInputValues(value);
+        if (values.length !== 1 || String(values[0]) === value.trim()) return null;
+        return Number(values[0].toPrecision(6));
+    }, [value, format]);
+
+    // Let learners confirm a matrix/vector shape before submitting
+    const answerShape = useMemo(() => {
+        if (format?.kind === "matrix") {
+            const parsed = parseMatrix(value);
+            return parsed && {
+                actual: `${parsed.length} × ${parsed[0].length}`,
+                expected: `${format.rows} × ${format.cols}`,
+            };
+        }
+        if (format?.kind === "vector") {
+            const parsed = parseVector(value);
+            return parsed && {
+                actual: `${parsed.length} entries`,
+                expected: `${format.size} entries`,
+            };
+        }
+        return null;
+    }, [value, format]);
+
+    if (format?.kind === "free_response") {
+        return (
+            <div>
+                <label className="text-sm opacity-60 block mb-2">
+                    Write your answer, then compare it with the model solution
+                </label>
+                <textarea
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    autoFocus={autoFocus}
+                    disabled={disabled}
+                    maxLength={5000}
+                    rows={10}
+                    className="w-full font-mono"
+                />
+            </div>
+        );
+    }
+
+    if (format?.kind === "choice") {
+        return (
+            <div>
+                <p className="text-sm opacity-60 mb-2">Choose one answer</p>
+                {format.options.length === 0 && (
+                    // Options are only sent once the session cookie exists
+                    <p className="text-sm opacity-60">Refresh the page to load the options.</p>
+                )}
+                <div className="grid gap-2">
+                    {format.options.map((option) => (
+                        <button
+                            key={option.id}
+                            type="button"
+                            onClick={() => onChange(option.id)}
+                            disabled={disabled}
+                            className={`border p-4 text-left transition-all cursor-pointer ${value === option.id
+                                ? "border-foreground bg-foreground/10"
+                                : "border-foreground/30 hover:border-foreground/60 hover:bg-foreground/5"
+                                }`}
+                        >
+                            <MathInline text={option.text} />
+                        </button>
+                    ))}
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            {value && (
+                <div className="mb-4">
+                    <p className="text-xs uppercase tracking-widest opacity-40 mb-2">Your Answer (Preview)</p>
+                    <div className="text-xl" dangerouslySetInnerHTML={{ __html: answerPreviewHtml }} />
+                    {answerValue !== null && (
+                        <p className="text-xs mt-2 opacity-50">= {answerValue}</p>
+                    )}
+                    {answerShape && (
+                        <p className={`text-xs mt-2 ${answerShape.actual === answerShape.expected ? "opacity-50" : "text-red-500"}`}>
+                            {answerShape.actual === answerShape.expected
+                                ? `Shape: ${answerShape.actual}`
+                                : `Shape: ${answerShape.actual} (expected ${answerShape.expected})`}
+                        </p>
+                    )}
+                </div>
+            )}
+            <label className="text-sm opacity-60 block mb-2">
+                {answerInputLabel(format)}
+            </label>
+            <input
+                type="text"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                onKeyDown={onKeyDown}
+                placeholder="e.g. 42 or \frac{1}{2} or \sqrt{2}"
+                autoFocus={autoFocus}
+                disabled={disabled}
+                maxLength={200}
+                className="font-mono"
+            />
+        </div>
+    );
+}
+
 export default function LearnPage() {
     const [problems, setProblems] = useState<Problem[]>([]);
     const [currentProblem, setCurrentProblem] = useState<Problem | null>(null);
     const [previousProblem, setPreviousProblem] = useState<Problem | null>(null);
 
     const [answer, setAnswer] = useState("");
+    const [partAnswers, setPartAnswers] = useState<string[]>([]); // Multi-part problems only
     const [gameState, setGameState] = useState<GameState>("loading");
 
     const [lastOutcome, setLastOutcome] = useState<Outcome | null>(null);
+    const [lastFeedback, setLastFeedback] = useState<string | null>(null);
+    const [lastPartResults, setLastPartResults] = useState<PartResult[] | null>(null);
+
+    // Hints revealed for the current problem (server records each reveal)
+    const [hints, setHints] = useState<string[]>([]);
+    const [hintsRemaining, setHintsRemaining] = useState(0);
+    const [isRevealingHint, setIsRevealingHint] = useState(false);
+
+    // Free-response problems: model solution and the learner's rubric ticks
+    const [modelSolution, setModelSolution] = useState<ModelSolution | null>(null);
+    const [rubricChecks, setRubricChecks] = useState<boolean[]>([]);
     const [difficulty, setDifficulty] = useState(1);
 
     // Counts problems completed (not attempts)
@@ -124,6 +331,9 @@ export default function LearnPage() {
     const [userRating, setUserRating] = useState(1000);
     const [inRegressionMode, setInRegressionMode] = useState(false);
 
+    // Mastered skills (signed-in users only); null = unknown, don't gate on prerequisites
+    const [masteredSkills, setMasteredSkills] = useState<Set<string> | null>(null);
+
     // For “wrong”: user can retry without changing difficulty yet.
     const [isResolved, setIsResolved] = useState(false); // resolved == we’re done with this problem (correct/giveup)
     const [error, setError] = useState<string | null>(null);
@@ -131,7 +341,8 @@ export default function LearnPage() {
 
     // Answer challenge feature
     const [challengeStatus, setChallengeStatus] = useState<"idle" | "submitting" | "submitted">("idle");
-    const [lastSubmittedAnswer, setLastSubmittedAnswer] = useState<string>("");
+    const [lastSubmittedAnswer, setLastSubmittedAnswer] = useState<string | string[]>("");
+    const [challengeError, setChallengeError] = useState<string | null>(null);
 
     // Keep an always-current difficulty for “select next” calls
     const difficultyRef = useRef<number>(difficulty);
@@ -204,6 +415,16 @@ export default function LearnPage() {
                     setUserRating(data.userRating);
                 }
 
+                // Mastery only gates selection, so don't block the page on it
+                if (data.isAuthenticated) {
+                    fetch("/api/me/mastery")
+                        .then((r) => (r.ok ? r.json() : null))
+                        .then((m: { skills: SkillMastery[] } | null) => {
+                            if (m) setMasteredSkills(new Set(m.skills.filter((s) => s.mastered).map((s) => s.skill)));
+                        })
+                        .catch((err) => console.error("Failed to load mastery:", err));
+                }
+
                 // Check for ?start= parameter (from search)
                 const urlParams = new URLSearchParams(window.location.search);
                 const startId = urlParams.get("start");
@@ -281,6 +502,12 @@ export default function LearnPage() {
                 });
             }
 
+            // Prefer problems whose prerequisite skills are mastered
+            if (masteredSkills) {
+                const ready = candidates.filter((p) => prerequisitesMet(p.skills, masteredSkills));
+                if (ready.length > 0) candidates = ready;
+            }
+
             // Final fallback: any unseen problem near target rating
             if (candidates.length === 0) {
                 candidates = problems.filter((p) => !seenIds.has(p.id));
@@ -307,13 +534,17 @@ export default function LearnPage() {
 
             setSeenIds((prev) => new Set([...prev, selected.id]));
             setAnswer("");
+            setPartAnswers(selected.parts?.map(() => "") ?? []);
+            setHints([]);
+            setHintsRemaining(selected.hint_count ?? 0);
+            setModelSolution(null);
             setLastOutcome(null);
             setIsResolved(false);
 
             setGameState("solving");
             startTimer();
         },
-        [problems, seenIds, currentProblem, startTimer, userRating, inRegressionMode]
+        [problems, seenIds, currentProblem, startTimer, userRating, inRegressionMode, masteredSkills]
     );
 
     useEffect(() => {
@@ -330,7 +561,7 @@ export default function LearnPage() {
         setIsSubmitting(true);
 
         const timeMs = getActiveMs();
-        const answerValue = action === "giveup" ? "" : answer;
+        const answerValue = action === "giveup" ? "" : currentProblem.parts ? partAnswers : answer;
 
         try {
             const res = await fetch("/api/attempt", {
@@ -352,6 +583,8 @@ export default function LearnPage() {
             }
 
             const result: AttemptResult = await res.json();
+            setLastFeedback(result.feedback ?? null);
+            setLastPartResults(result.parts ?? null);
 
             if (action === "giveup") {
                 setLastOutcome("giveup");
@@ -366,9 +599,17 @@ export default function LearnPage() {
             } else {
                 setLastOutcome("wrong");
                 setIsResolved(false); // user can retry
-                setLastSubmittedAnswer(answerValue); // Store for challenge
+                // Store for challenge (option text rather than its opaque id)
+                const optionText = (format: AnswerFormat | undefined, value: string) =>
+                    format?.kind === "choice" ? format.options.find((o) => o.id === value)?.text ?? value : value;
+                setLastSubmittedAnswer(
+                    currentProblem.parts
+                        ? currentProblem.parts.map((part, i) => `(${part.label}) ${optionText(part.answer_format, partAnswers[i])}`)
+                        : optionText(currentProblem.answer_format, answer)
+                );
             }
             setChallengeStatus("idle"); // Reset challenge status for new problem
+            setChallengeError(null);
             setGameState("feedback");
         } catch (err) {
             console.error(err);
@@ -378,8 +619,104 @@ export default function LearnPage() {
         }
     };
 
+    // --- Free response: reveal the model solution, then self-assess ---
+    const revealModelSolution = async () => {
+        if (!currentProblem || isSubmitting) return;
+        setIsSubmitting(true);
+
+        try {
+            const res = await fetch(`/api/solution/${currentProblem.id}`);
+            if (!res.ok) {
+                setError("Could not load the model solution");
+                return;
+            }
+
+            const data: { answer?: { kind: string } & Partial<ModelSolution> } = await res.json();
+            if (data.answer?.kind !== "free_response" || !data.answer.model_solution || !data.answer.rubric) {
+                setError("Could not load the model solution");
+                return;
+            }
+            setModelSolution({ model_solution: data.answer.model_solution, rubric: data.answer.rubric });
+            setRubricChecks(data.answer.rubric.map(() => false));
+            setGameState("assessing");
+        } catch (err) {
+            console.error(err);
+            setError("Network error. Please try again.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const submitSelfAssessment = async () => {
+        if (!currentProblem || isSubmitting) return;
+        setIsSubmitting(true);
+
+        try {
+            const res = await fetch("/api/attempt", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    problemId: currentProblem.id,
+                    rubric: rubricChecks,
+                    // Timer paused while assessing, so this is time spent writing
+                    timeMs: getActiveMs(),
+                    outcome: "self_assess",
+                }),
+            });
+
+            if (!res.ok) {
+                const err = await res.json().catch(() => ({}));
+                setError(err.error || "Submission failed");
+                return;
+            }
+
+            setLastOutcome("self_assessed");
+            setIsResolved(true);
+            setGameState("feedback");
+        } catch (err) {
+            console.error(err);
+            setError("Network error. Please try again.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // --- Reveal the next hint ---
+    const revealHint = async () => {
+        if (!currentProblem || isRevealingHint) return;
+        setIsRevealingHint(true);
+
+        try {
+            const res = await fetch("/api/hint", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ problemId: currentProblem.id }),
+            });
+
+            if (!res.ok) {
+                const err = await res.json().catch(() => ({}));
+                setError(err.error || "Could not load hint");
+                return;
+            }
+
+            const result: { hints: string[]; remaining: number } = await res.json();
+            setHints(result.hints);
+            setHintsRemaining(result.remaining);
+        } catch (err) {
+            console.error(err);
+            setError("Network error. Please try again.");
+        } finally {
+            setIsRevealingHint(false);
+        }
+    };
+
+    // Multi-part problems can be submitted with some parts left blank
+    const hasAnswer = currentProblem?.parts ? partAnswers.some((a) => a.trim()) : answer.trim().length > 0;
+
+    const isFreeResponse = currentProblem?.answer_format?.kind === "free_response";
+
     const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
-        if (e.key === "Enter" && answer.trim() && gameState === "solving") {
+        if (e.key === "Enter" && hasAnswer && gameState === "solving" && !isFreeResponse) {
             e.preventDefault();
             submitAttempt("submit");
         }
@@ -391,15 +728,15 @@ export default function LearnPage() {
      * - Wrong only affects difficulty if user chooses “Move on”.
      */
     const finalizeAndContinue = (finalOutcome: Outcome) => {
-        // Rating-based progression
-        const ratingDelta = finalOutcome === "correct" ? 50 : -75;
+        // Rating-based progression; unverified self-assessments leave it unchanged
+        const ratingDelta = finalOutcome === "correct" ? 50 : finalOutcome === "self_assessed" ? 0 : -75;
         const nextRating = Math.max(500, Math.min(2500, userRating + ratingDelta));
         setUserRating(nextRating);
 
         // Regression mode: activated on wrong/giveup, deactivated on correct
         if (finalOutcome === "correct") {
             setInRegressionMode(false);
-        } else {
+        } else if (finalOutcome !== "self_assessed") {
             setInRegressionMode(true);
         }
 
@@ -407,7 +744,9 @@ export default function LearnPage() {
         const nextDifficulty =
             finalOutcome === "correct"
                 ? Math.min(20, difficultyRef.current + 1)
-                : Math.max(1, difficultyRef.current - 1);
+                : finalOutcome === "self_assessed"
+                    ? difficultyRef.current
+                    : Math.max(1, difficultyRef.current - 1);
         difficultyRef.current = nextDifficulty;
         setDifficulty(nextDifficulty);
 
@@ -452,6 +791,7 @@ export default function LearnPage() {
         if (!currentProblem || challengeStatus !== "idle") return;
 
         setChallengeStatus("submitting");
+        setChallengeError(null);
         try {
             const res = await fetch("/api/challenge", {
                 method: "POST",
@@ -460,23 +800,25 @@ export default function LearnPage() {
                     problemId: currentProblem.id,
                     userAnswer: lastSubmittedAnswer,
                     expectedAnswer: "(unknown - please review)",
-                    reason: `User believes their answer "${lastSubmittedAnswer}" is correct`,
+                    reason: "User believes their answer is correct",
                 }),
             });
 
             if (res.ok) {
                 setChallengeStatus("submitted");
             } else {
+                const err = await res.json().catch(() => ({}));
                 setChallengeStatus("idle");
-                console.error("Challenge submission failed");
+                setChallengeError(err.error || "Challenge submission failed");
             }
         } catch (err) {
             console.error("Challenge error:", err);
             setChallengeStatus("idle");
+            setChallengeError("Network error. Please try again.");
         }
     };
 
-    const answerPreviewHtml = useMemo(() => renderMathSafe(answer), [answer]);
+    const answerFormat = currentProblem?.answer_format;
 
     // --- UI states ---
     if (error) {
@@ -601,7 +943,7 @@ export default function LearnPage() {
         <main className="mx-auto flex-1 px-6 py-20 pt-24" style={{ maxWidth: "var(--page-max)" }}>
             <div className="textbook-page">
                 <div className="flex items-center justify-between mb-8 text-sm opacity-60 border-b border-foreground/20 pb-4">
-                    <span>Level {currentProblem?.difficulty ?? difficultyRef.current} · #{completedCount + 1}</span>
+                    <span>Level {currentProblem?.seed_difficulty ?? difficultyRef.current} · #{completedCount + 1}</span>
                     <span>{currentProblem?.topic}</span>
                 </div>
 
@@ -612,41 +954,66 @@ export default function LearnPage() {
                             <p className="text-2xl md:text-3xl leading-relaxed">
                                 <MathInline text={currentProblem.prompt} />
                             </p>
+                            <ProblemFigures problemId={currentProblem.id} figures={currentProblem.figures} className="mt-6" />
                         </div>
 
-                        {answer && (
-                            <div className="mb-6">
-                                <p className="text-xs uppercase tracking-widest opacity-40 mb-2">Your Answer (Preview)</p>
-                                <div className="text-xl" dangerouslySetInnerHTML={{ __html: answerPreviewHtml }} />
-                            </div>
+                        {hints.length > 0 && (
+                            <ol className="mb-8 space-y-2 border-l-2 border-foreground/30 pl-4">
+                                {hints.map((hint, i) => (
+                                    <li key={i} className="opacity-80">
+                                        <span className="text-xs uppercase tracking-widest opacity-50 mr-2">Hint {i + 1}</span>
+                                        <MathInline text={hint} />
+                                    </li>
+                                ))}
+                            </ol>
                         )}
 
                         <div className="space-y-4 mb-8">
-                            <div>
-                                <label className="text-sm opacity-60 block mb-2">
-                                    Enter your answer (plain text or LaTeX)
-                                </label>
-                                <input
-                                    type="text"
+                            {currentProblem.parts ? (
+                                currentProblem.parts.map((part, i) => (
+                                    <div key={part.label} className="space-y-2">
+                                        <p className="text-xl">
+                                            ({part.label}) <MathInline text={part.prompt} />
+                                        </p>
+                                        <AnswerField
+                                            format={part.answer_format}
+                                            value={partAnswers[i] ?? ""}
+                                            onChange={(value) => setPartAnswers((prev) => prev.map((a, j) => (j === i ? value : a)))}
+                                            onKeyDown={handleKeyDown}
+                                            disabled={isSubmitting}
+                                            autoFocus={i === 0}
+                                        />
+                                    </div>
+                                ))
+                            ) : (
+                                <AnswerField
+                                    format={answerFormat}
                                     value={answer}
-                                    onChange={(e) => setAnswer(e.target.value)}
+                                    onChange={setAnswer}
                                     onKeyDown={handleKeyDown}
-                                    placeholder="e.g. 42 or \frac{1}{2} or \sqrt{2}"
-                                    autoFocus
                                     disabled={isSubmitting}
-                                    maxLength={200}
-                                    className="font-mono"
+                                    autoFocus
                                 />
-                            </div>
+                            )}
 
                             <div className="flex gap-3">
                                 <button
-                                    onClick={() => submitAttempt("submit")}
-                                    disabled={!answer.trim() || isSubmitting}
+                                    onClick={() => (isFreeResponse ? revealModelSolution() : submitAttempt("submit"))}
+                                    disabled={!hasAnswer || isSubmitting}
                                     className="btn btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
                                 >
-                                    {isSubmitting ? "..." : "Submit Answer"}
+                                    {isSubmitting ? "..." : isFreeResponse ? "Compare With Model Solution" : "Submit Answer"}
                                 </button>
+                                {hintsRemaining > 0 && (
+                                    <button
+                                        onClick={revealHint}
+                                        disabled={isSubmitting || isRevealingHint}
+                                        className="btn disabled:opacity-50"
+                                        title="Using hints reduces the rating you gain"
+                                    >
+                                        {isRevealingHint ? "..." : `Hint (${hintsRemaining})`}
+                                    </button>
+                                )}
                                 <button
                                     onClick={() => submitAttempt("giveup")}
                                     disabled={isSubmitting}
@@ -672,6 +1039,48 @@ export default function LearnPage() {
                     </>
                 )}
 
+                {gameState === "assessing" && currentProblem && modelSolution && (
+                    <div className="space-y-8">
+                        <div>
+                            <p className="text-sm uppercase tracking-widest opacity-40 mb-2">Your Answer</p>
+                            <p className="whitespace-pre-wrap opacity-80">{answer}</p>
+                        </div>
+
+                        <div>
+                            <p className="text-sm uppercase tracking-widest opacity-40 mb-2">Model Solution</p>
+                            <div dangerouslySetInnerHTML={{ __html: renderMarkdown(modelSolution.model_solution) }} />
+                        </div>
+
+                        <div>
+                            <p className="text-sm uppercase tracking-widest opacity-40 mb-2">Does your answer…</p>
+                            <ul className="space-y-2">
+                                {modelSolution.rubric.map((item, i) => (
+                                    <li key={i}>
+                                        <label className="flex gap-3 items-start cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={rubricChecks[i] ?? false}
+                                                onChange={(e) => setRubricChecks((prev) => prev.map((c, j) => (j === i ? e.target.checked : c)))}
+                                                className="mt-1"
+                                            />
+                                            <MathInline text={item} />
+                                        </label>
+                                    </li>
+                                ))}
+                            </ul>
+                            <p className="text-xs opacity-50 mt-3">Self-assessed answers don&apos;t change your rating.</p>
+                        </div>
+
+                        <button
+                            onClick={submitSelfAssessment}
+                            disabled={isSubmitting}
+                            className="btn btn-primary w-full disabled:opacity-50"
+                        >
+                            {isSubmitting ? "..." : "Submit Self-Assessment"}
+                        </button>
+                    </div>
+                )}
+
                 {gameState === "feedback" && (
                     <div className="text-center py-12">
                         <p className="text-3xl mb-8">
@@ -679,9 +1088,27 @@ export default function LearnPage() {
                                 ? "✓ Correct"
                                 : lastOutcome === "giveup"
                                     ? "Skipped"
-                                    : "✗ Incorrect"}
+                                    : lastOutcome === "self_assessed"
+                                        ? `Self-assessed: ${rubricChecks.filter(Boolean).length} of ${rubricChecks.length} rubric points`
+                                        : lastPartResults?.some((r) => r.correct)
+                                            ? `◐ ${lastPartResults.filter((r) => r.correct).length} of ${lastPartResults.length} parts correct`
+                                            : "✗ Incorrect"}
                         </p>
 
+                        {lastOutcome === "wrong" && lastPartResults && (
+                            <ul className="opacity-70 -mt-4 mb-8 space-y-1">
+                                {lastPartResults.map((r) => (
+                                    <li key={r.label}>
+                                        ({r.label}) {r.correct ? "✓" : "✗"}{r.feedback ? ` ${r.feedback}` : ""}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {lastOutcome === "wrong" && lastFeedback && (
+                            <p className="opacity-70 -mt-4 mb-8">{lastFeedback}</p>
+                        )}
+
                         <div className="flex gap-3 justify-center">
                             {/* Wrong: allow retry without changing difficulty */}
                             {lastOutcome === "wrong" && !isResolved && (
@@ -689,6 +1116,8 @@ export default function LearnPage() {
                                     <button
                                         onClick={() => {
                                             setAnswer("");
+                                            // Keep parts that were right, clear the rest
+                                            setPartAnswers((prev) => prev.map((a, i) => (lastPartResults?.[i]?.correct ? a : "")));
                                             setGameState("solving");
                                             // Resume timer for continued work on same problem
                                             resumeTimer();
@@ -720,6 +1149,9 @@ export default function LearnPage() {
                                     {challengeStatus === "submitted" && (
                                         <span className="text-sm text-green-500">✓ Challenge submitted</span>
                                     )}
+                                    {challengeError && (
+                                        <span className="text-sm text-red-500">{challengeError}</span>
+                                    )}
 
                                     {/* View Solution button (if video available) */}
                                     {currentProblem?.solution_video_url && (
@@ -735,7 +1167,8 @@ export default function LearnPage() {
 
                             {/* Correct / Giveup: finalize immediately */}
                             {((lastOutcome === "correct" && isResolved) ||
-                                lastOutcome === "giveup") && (
+                                lastOutcome === "giveup" ||
+                                lastOutcome === "self_assessed") && (
                                     <div className="flex flex-col items-center gap-3">
                                         <div className="flex gap-3">
                                             {/* View Solution button for Giveup (if video available) */}
@@ -747,8 +1180,18 @@ export default function LearnPage() {
                                                     View Solution
                                                 </button>
                                             )}
+                                            {/* Written solution opens in a new tab so the session continues */}
+                                            {lastOutcome === "giveup" && !currentProblem?.solution_video_url && currentProblem?.has_solution && (
+                                                <Link
+                                                    href={`/solution/${currentProblem.id}`}
+                                                    target="_blank"
+                                                    className="btn"
+                                                >
+                                                    Read Solution
+                                                </Link>
+                                            )}
                                             <button
-                                                onClick={() => finalizeAndContinue(lastOutcome === "correct" ? "correct" : "giveup")}
+                                                onClick={() => finalizeAndContinue(lastOutcome)}
                                                 className="btn btn-primary"
                                             >
                                                 Next Problem →
@@ -8,6 +8,7 @@ import {
 } from "recharts";
 import Link from "next/link";
 import { User } from "@supabase/supabase-js";
+import type { SkillMastery } from "@/lib/mastery";
 
 type Stats = {
     rating: number;
@@ -43,6 +44,7 @@ export default function DashboardPage() {
     const [stats, setStats] = useState<Stats | null>(null);
     const [history, setHistory] = useState<HistoryPoint[]>([]);
     const [topicData, setTopicData] = useState<TopicPoint[]>([]);
+    const [mastery, setMastery] = useState<SkillMastery[]>([]);
     const [loading, setLoading] = useState(true);
     const [user, setUser] = useState<User | null>(null);
 
@@ -61,6 +63,12 @@ export default function DashboardPage() {
                     setHistory(data.history);
                     setTopicData(data.topicData ?? []);
                 }
+
+                const masteryRes = await fetch("/api/me/mastery");
+                if (masteryRes.ok) {
+                    const data = await masteryRes.json();
+                    setMastery(data.skills ?? []);
+                }
             }
             setLoading(false);
         }
@@ -230,6 +238,37 @@ export default function DashboardPage() {
                             )}
                         </div>
                     </div>
+
+                    {/* Skill Mastery */}
+                    <div>
+                        <h2 className="text-xl font-serif mb-6">Skill Mastery</h2>
+                        {mastery.length > 0 ? (
+                            <ul className="space-y-3">
+                                {mastery.map((m) => (
+                                    <li key={m.skill}>
+                                        <div className="flex justify-between text-sm mb-1">
+                                            <span>
+                                                {m.name} <span className="text-foreground/40">· {m.topic}</span>
+                                            </span>
+                                            <span className="text-foreground/50 tabular-nums">
+                                                {m.mastered ? "Mastered" : `${Math.round(m.estimate * 100)}%`} · {m.attempts} attempts
+                                            </span>
+                                        </div>
+                                        <div className="h-1.5 bg-foreground/10 rounded-full overflow-hidden">
+                                            <div
+                                                className={`h-full rounded-full ${m.mastered ? "bg-foreground/80" : "bg-foreground/40"}`}
+                                                style={{ width: `${m.estimate * 100}%` }}
+                                            />
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <div className="border border-foreground/10 rounded-lg p-4 text-center text-foreground/40 text-sm">
+                                Solve skill-tagged problems to see your mastery.
+                            </div>
+                        )}
+                    </div>
                 </section>
 
                 {/* CTA */}
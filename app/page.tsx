@@ -1,15 +1,12 @@
 
-import path from "node:path";
-import { globSync } from "glob";
 import Link from "next/link";
 import { MathBackground } from "@/components/MathBackground";
 import { Suspense } from "react";
 import { AuthCheck } from "@/components/AuthCheck";
+import { distinctProblemCount } from "@/lib/problem-corpus";
 
 function getProblemCount() {
-  const problemsDir = path.join(process.cwd(), "data/problems");
-  const files = globSync("**/*.json", { cwd: problemsDir });
-  return files.length;
+  return distinctProblemCount();
 }
 
 export default function HomePage() {
@@ -4,10 +4,14 @@ import { useState, useEffect, useMemo, useCallback } from "react";
 import Link from "next/link";
 import katex from "katex";
 import "katex/dist/katex.min.css";
+import { skillName } from "@/lib/skills";
+import { ProblemFigures, type Figure } from "@/components/ProblemFigures";
 
 interface Problem {
     id: string;
     topic: string;
+    skills?: string[];
+    figures?: Figure[];
     difficulty?: number;
     seed_difficulty?: number;
     prompt: string;
@@ -42,6 +46,7 @@ export default function SearchPage() {
     const [topicFilter, setTopicFilter] = useState<string>("");
     const [sortBy, setSortBy] = useState<SortOption>("relevance");
     const [levelFilter, setLevelFilter] = useState<string>("");
+    const [skillFilter, setSkillFilter] = useState<string>("");
     const [useApiSearch, setUseApiSearch] = useState(true);
 
     // Fetch problems once for client-side fallback and topics
@@ -69,6 +74,12 @@ export default function SearchPage() {
         return () => clearTimeout(timer);
     }, [query]);
 
+    // Search API results don't carry figures; take them from the full list
+    const figuresById = useMemo(
+        () => new Map(problems.filter((p) => p.figures).map((p) => [p.id, p.figures])),
+        [problems]
+    );
+
     // Get unique topics for filter
     const topics = useMemo(() => {
         const set = new Set(problems.map((p) => p.topic));
@@ -101,7 +112,7 @@ export default function SearchPage() {
 
     // Search effect
     useEffect(() => {
-        if (!debouncedQuery.trim() && !topicFilter && !levelFilter) {
+        if (!debouncedQuery.trim() && !topicFilter && !levelFilter && !skillFilter) {
             setResults(sortResults(problems.slice(0, 50)));
             return;
         }
@@ -117,6 +128,7 @@ export default function SearchPage() {
                 const params = new URLSearchParams();
                 if (debouncedQuery.trim()) params.set("q", debouncedQuery.trim());
                 if (topicFilter) params.set("topic", topicFilter);
+                if (skillFilter) params.set("skill", skillFilter);
 
                 const res = await fetch(`/api/search?${params}`);
                 if (!res.ok) throw new Error("API search failed");
@@ -131,7 +143,7 @@ export default function SearchPage() {
 
                 if (Array.isArray(data) && data.length > 0) {
                     setResults(sortResults(data));
-                } else if (debouncedQuery.trim()) {
+                } else if (debouncedQuery.trim() || skillFilter) {
                     clientSideSearch();
                 } else {
                     setResults([]);
@@ -149,6 +161,7 @@ export default function SearchPage() {
             const filtered = problems.filter((p) => {
                 if (topicFilter && p.topic !== topicFilter) return false;
                 if (levelFilter && getDifficulty(p) !== parseInt(levelFilter, 10)) return false;
+                if (skillFilter && !p.skills?.includes(skillFilter)) return false;
                 if (q) {
                     const inTopic = p.topic.toLowerCase().includes(q);
                     const inPrompt = p.prompt.toLowerCase().includes(q);
@@ -161,7 +174,7 @@ export default function SearchPage() {
         };
 
         searchApi();
-    }, [debouncedQuery, topicFilter, levelFilter, sortBy, problems, useApiSearch, sortResults]);
+    }, [debouncedQuery, topicFilter, levelFilter, skillFilter, sortBy, problems, useApiSearch, sortResults]);
 
     return (
         <main className="mx-auto flex-1 px-6 py-20 pt-24" style={{ maxWidth: "1200px" }}>
@@ -229,12 +242,24 @@ export default function SearchPage() {
                     </div>
 
                     {/* Clear filters */}
-                    {(topicFilter || levelFilter || query) && (
+                    {/* Skill filter (set by clicking a chip) */}
+                    {skillFilter && (
+                        <button
+                            onClick={() => setSkillFilter("")}
+                            className="text-sm border border-foreground px-3 py-1 rounded-full"
+                            title="Remove skill filter"
+                        >
+                            {skillName(skillFilter)} ×
+                        </button>
+                    )}
+
+                    {(topicFilter || levelFilter || skillFilter || query) && (
                         <button
                             onClick={() => {
                                 setQuery("");
                                 setTopicFilter("");
                                 setLevelFilter("");
+                                setSkillFilter("");
                             }}
                             className="text-sm opacity-50 hover:opacity-100 underline"
                         >
@@ -260,9 +285,30 @@ export default function SearchPage() {
                                 <p className="text-lg mb-2">
                                     <MathInline text={problem.prompt} />
                                 </p>
+                                <ProblemFigures
+                                    problemId={problem.id}
+                                    figures={problem.figures ?? figuresById.get(problem.id)}
+                                    className="mb-2 [&_img]:max-h-40"
+                                />
                                 <p className="text-sm opacity-50 mb-4">
                                     {problem.topic} · Level {getDifficulty(problem)}
                                 </p>
+                                {problem.skills && problem.skills.length > 0 && (
+                                    <div className="flex flex-wrap gap-2 mb-4">
+                                        {problem.skills.map((skill) => (
+                                            <button
+                                                key={skill}
+                                                onClick={() => setSkillFilter(skill)}
+                                                className={`text-xs border px-2 py-1 rounded-full transition-all ${skill === skillFilter
+                                                    ? "border-foreground bg-foreground/10"
+                                                    : "border-foreground/20 opacity-70 hover:opacity-100"
+                                                    }`}
+                                            >
+                                                {skillName(skill)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
                                 <div className="flex gap-3">
                                     <Link
                                         href={`/learn?start=${problem.id}`}
@@ -5,22 +5,80 @@ import Link from "next/link";
 import { useParams } from "next/navigation";
 import katex from "katex";
 import "katex/dist/katex.min.css";
+import { rationalToLatex } from "@/lib/answers/rational";
+import { exprToLatex, parseExpression } from "@/lib/answers/math-expr";
+import { numberSetToLatex, parseSetElement, type SetElement } from "@/lib/answers/number-set";
+import { intervalUnionToLatex, parseIntervalUnion } from "@/lib/answers/interval";
+import { tupleToLatex } from "@/lib/answers/tuple";
+import { matrixToLatex, vectorToLatex } from "@/lib/answers/matrix";
+import { complexToLatex } from "@/lib/answers/complex";
+import { renderMarkdown, splitSolutionSteps } from "@/lib/markdown";
+import { ProblemFigures, type Figure } from "@/components/ProblemFigures";
+import { attributionLine, LICENSE_URLS } from "@/lib/provenance";
+import type { Answer, License, Provenance } from "@/data/schema/problem.schema";
 
 interface Problem {
     id: string;
     topic: string;
     difficulty?: number;
     prompt: string;
+    figures?: Figure[];
+    solution?: string;
     solution_video_url?: string;
+    provenance: Provenance;
+    license: License;
+    author: string;
 }
 
-interface Answer {
-    kind: string;
-    value: string | number;
+interface ProblemPart {
+    label: string;
+    prompt: string;
+    answer: Answer;
 }
 
 interface ProblemWithAnswer extends Problem {
-    answer: Answer;
+    answer?: Answer;
+    parts?: ProblemPart[];
+}
+
+/** Written solution; each "## " step is collapsible, all open by default. */
+function WrittenSolution({ markdown }: { markdown: string }) {
+    const steps = useMemo(
+        () => splitSolutionSteps(markdown).map((step) => ({ title: step.title, html: renderMarkdown(step.body) })),
+        [markdown]
+    );
+
+    return (
+        <div className="space-y-3">
+            {steps.map((step, i) =>
+                step.title === null ? (
+                    <div key={i} dangerouslySetInnerHTML={{ __html: step.html }} />
+                ) : (
+                    <details key={i} open className="border border-foreground/20 p-4">
+                        <summary className="cursor-pointer font-medium">{step.title}</summary>
+                        <div className="mt-2" dangerouslySetInnerHTML={{ __html: step.html }} />
+                    </details>
+                )
+            )}
+        </div>
+    );
+}
+
+/** Model solution followed by the rubric learners assess themselves against. */
+function FreeResponseAnswer({ answer }: { answer: { model_solution: string; rubric: string[] } }) {
+    return (
+        <div>
+            <WrittenSolution markdown={answer.model_solution} />
+            <p className="text-sm uppercase tracking-widest opacity-40 mt-6 mb-2">Rubric</p>
+            <ul className="list-disc pl-6 space-y-1">
+                {answer.rubric.map((item, i) => (
+                    <li key={i}>
+                        <MathInline text={item} />
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
 }
 
 /** Render inline math using KaTeX */
@@ -76,6 +134,44 @@ export default function SolutionPage() {
         if (answer.kind === "number") {
             return String(answer.value);
         }
+        if (answer.kind === "fraction") {
+            return `$${rationalToLatex({ num: answer.numerator, den: answer.denominator })}$`;
+        }
+        if (answer.kind === "expression") {
+            const parsed = parseExpression(answer.value, answer.variables);
+            return `$${parsed ? exprToLatex(parsed) : answer.value}$`;
+        }
+        if (answer.kind === "set") {
+            const elements = answer.values.map((v) => parseSetElement(v) as SetElement);
+            return `$${numberSetToLatex(elements)}$`;
+        }
+        if (answer.kind === "interval") {
+            const intervals = parseIntervalUnion(answer.value, answer.variable);
+            return intervals ? `$${intervalUnionToLatex(intervals)}$` : answer.value;
+        }
+        if (answer.kind === "choice") {
+            return answer.options[answer.correct];
+        }
+        if (answer.kind === "tuple") {
+            const components = answer.values.map((v) => parseSetElement(v) as SetElement);
+            return `$${tupleToLatex(components)}$`;
+        }
+        if (answer.kind === "vector") {
+            return `$${vectorToLatex(answer.values.map((v) => parseSetElement(v) as SetElement))}$`;
+        }
+        if (answer.kind === "matrix") {
+            const rows = answer.values.map((row) => row.map((v) => parseSetElement(v) as SetElement));
+            return `$${matrixToLatex(rows)}$`;
+        }
+        if (answer.kind === "complex") {
+            return `$${complexToLatex(answer)}$`;
+        }
+        if (answer.kind === "quantity") {
+            return `$${answer.value}\\,\\mathrm{${answer.unit}}$`;
+        }
+        if (answer.kind === "free_response") {
+            return ""; // Rendered as a model solution and rubric instead
+        }
         return String(answer.value);
     };
 
@@ -132,16 +228,46 @@ export default function SolutionPage() {
                     <p className="text-2xl">
                         <MathInline text={problem.prompt} />
                     </p>
+                    <ProblemFigures problemId={problem.id} figures={problem.figures} className="mt-4" />
+                    {problem.parts && (
+                        <ol className="mt-4 space-y-2 text-xl">
+                            {problem.parts.map((part) => (
+                                <li key={part.label}>
+                                    ({part.label}) <MathInline text={part.prompt} />
+                                </li>
+                            ))}
+                        </ol>
+                    )}
                 </div>
 
                 {/* Answer */}
                 <div className="mb-12 p-6 border-2 border-foreground/40 bg-foreground/5">
-                    <p className="text-sm uppercase tracking-widest opacity-40 mb-2">Answer</p>
-                    <p className="text-4xl font-bold">
-                        <MathInline text={formatAnswer(problem.answer)} />
+                    <p className="text-sm uppercase tracking-widest opacity-40 mb-2">
+                        {problem.answer?.kind === "free_response" ? "Model Solution" : "Answer"}
                     </p>
+                    {problem.answer?.kind === "free_response" && (
+                        <FreeResponseAnswer answer={problem.answer} />
+                    )}
+                    {problem.answer && problem.answer.kind !== "free_response" && (
+                        <p className="text-4xl font-bold">
+                            <MathInline text={formatAnswer(problem.answer)} />
+                        </p>
+                    )}
+                    {problem.parts?.map((part) => (
+                        <p key={part.label} className="text-2xl font-bold mb-2">
+                            ({part.label}) <MathInline text={formatAnswer(part.answer)} />
+                        </p>
+                    ))}
                 </div>
 
+                {/* Written Solution */}
+                {problem.solution && (
+                    <div className="mb-8">
+                        <p className="text-sm uppercase tracking-widest opacity-40 mb-4">Solution</p>
+                        <WrittenSolution markdown={problem.solution} />
+                    </div>
+                )}
+
                 {/* Video Solution */}
                 {problem.solution_video_url && (
                     <div className="mb-8">
@@ -161,12 +287,29 @@ export default function SolutionPage() {
                     </div>
                 )}
 
-                {!problem.solution_video_url && (
+                {!problem.solution_video_url && !problem.solution && (
                     <div className="mb-8 p-6 border border-foreground/10 opacity-50">
                         <p className="text-sm">No video explanation available for this problem yet.</p>
                     </div>
                 )}
 
+                {/* Attribution (required by CC BY licenses) */}
+                <p className="text-sm opacity-60 mt-8">
+                    {attributionLine(problem.provenance, problem.author)}
+                    {problem.provenance.url && (
+                        <>
+                            {" · "}
+                            <a href={problem.provenance.url} target="_blank" rel="noopener noreferrer" className="underline">
+                                Source
+                            </a>
+                        </>
+                    )}
+                    {" · "}
+                    <a href={LICENSE_URLS[problem.license]} target="_blank" rel="noopener noreferrer" className="underline">
+                        {problem.license}
+                    </a>
+                </p>
+
                 {/* Actions */}
                 <div className="flex gap-4 mt-8">
                     <Link href={`/learn?start=${problem.id}`} className="btn px-6 py-3">
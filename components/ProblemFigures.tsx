@@ -0,0 +1,34 @@
+import Image from "next/image";
+import { figureUrl } from "@/lib/figures";
+
+export interface Figure {
+    file: string;
+    alt: string;
+    caption?: string;
+}
+
+/** A problem's SVG figures, served as images so they can't run script. */
+export function ProblemFigures({ problemId, figures, className }: { problemId: string; figures?: Figure[]; className?: string }) {
+    if (!figures || figures.length === 0) return null;
+
+    return (
+        <div className={`flex flex-wrap gap-4 ${className ?? ""}`}>
+            {figures.map((figure) => (
+                <figure key={figure.file} className="max-w-full">
+                    {/* SVGs scale themselves; width/height 0 lets them keep their intrinsic size */}
+                    <Image
+                        src={figureUrl(problemId, figure.file)}
+                        alt={figure.alt}
+                        width={0}
+                        height={0}
+                        unoptimized
+                        className="h-auto w-auto max-h-72 max-w-full"
+                    />
+                    {figure.caption && (
+                        <figcaption className="text-sm opacity-60 mt-1">{figure.caption}</figcaption>
+                    )}
+                </figure>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,5 @@
+// Types for corpus.js, which scripts/build-corpus.ts generates (not checked in)
+import type { CompiledCorpus } from "@/lib/corpus-loader";
+
+declare const corpus: CompiledCorpus;
+export default corpus;
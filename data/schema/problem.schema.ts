@@ -1,10 +1,18 @@
 import { z } from "zod";
 
+// A number, or an exact fraction written as "3/4"
+const NumericValueSchema = z.union([
+  z.number().finite(),
+  z.string().regex(/^-?\d+\/\d+$/),
+]);
+
 export const AnswerSchema = z.discriminatedUnion("kind", [
   z
     .object({
       kind: z.literal("exact"),
       value: z.string().min(1).max(200),
+      // Alternate forms that normalize differently, e.g. "x = 2" alongside "2 = x"
+      accepted: z.array(z.string().min(1).max(200)).max(20).default([]),
     })
     .strict(),
 
@@ -13,19 +21,217 @@ export const AnswerSchema = z.discriminatedUnion("kind", [
       kind: z.literal("number"),
       value: z.number().finite(),
       tolerance: z.number().finite().nonnegative().default(0),
+      // Fraction of |value|, e.g. 0.001 for 6.02e23; the looser of the two tolerances applies
+      rel_tolerance: z.number().finite().nonnegative().optional(),
+      // Grade by rounding both sides to this many significant figures instead
+      sig_figs: z.number().int().min(1).max(15).optional(),
+    })
+    .strict(),
+
+  // Exact rational answer, e.g. 3/4 (graded as a rational, never rounded)
+  z
+    .object({
+      kind: z.literal("fraction"),
+      numerator: z.number().int(),
+      denominator: z.number().int().positive(),
+      // Reject unreduced input like 6/8 when the answer is 3/4
+      require_lowest_terms: z.boolean().default(false),
+    })
+    .strict(),
+
+  // Symbolic answer, graded by equivalence (2x+2 == 2(x+1)), not by string
+  z
+    .object({
+      kind: z.literal("expression"),
+      value: z.string().min(1).max(200),
+      // Free variables the learner may use, e.g. ["x"] or ["theta"]
+      variables: z
+        .array(z.string().regex(/^([a-zA-Z]|alpha|beta|gamma|theta|phi|omega)$/))
+        .max(6)
+        .default([]),
+    })
+    .strict(),
+
+  // Unordered collection of numbers, e.g. all roots: [2, 3] or [-1, "1/2"]
+  z
+    .object({
+      kind: z.literal("set"),
+      values: z
+        .array(NumericValueSchema)
+        .min(1)
+        .max(20),
+      // Applied to each element independently
+      tolerance: z.number().finite().nonnegative().default(0),
+      // "ignore": {2, 2, 3} == {2, 3}; "strict": repeated roots must be listed
+      duplicates: z.enum(["ignore", "strict"]).default("ignore"),
+    })
+    .strict(),
+
+  // Union of intervals in interval notation, e.g. "(-inf, 2] U (5, inf)"
+  z
+    .object({
+      kind: z.literal("interval"),
+      value: z.string().min(1).max(200),
+      // Variable learners use in inequality notation ("x <= 2 or x > 5")
+      variable: z.string().regex(/^[a-zA-Z]$/).default("x"),
+    })
+    .strict(),
+
+  // Multiple choice; options are shuffled per session when served
+  z
+    .object({
+      kind: z.literal("choice"),
+      options: z.array(z.string().min(1).max(500)).min(2).max(8),
+      // Index into `options` as written in the file
+      correct: z.number().int().nonnegative(),
+    })
+    .strict()
+    .refine((a) => a.correct < a.options.length, {
+      message: "correct must index into options",
+      path: ["correct"],
+    }),
+
+  // Ordered tuple, e.g. a point (2, -3); arity is values.length
+  z
+    .object({
+      kind: z.literal("tuple"),
+      values: z
+        .array(NumericValueSchema)
+        .min(2)
+        .max(10),
+      // One tolerance for all components, or one per component
+      tolerance: z
+        .union([
+          z.number().finite().nonnegative(),
+          z.array(z.number().finite().nonnegative()),
+        ])
+        .default(0),
+    })
+    .strict()
+    .refine((a) => !Array.isArray(a.tolerance) || a.tolerance.length === a.values.length, {
+      message: "tolerance array must have one entry per component",
+      path: ["tolerance"],
+    }),
+
+  // Vector of declared dimension, graded entry by entry
+  z
+    .object({
+      kind: z.literal("vector"),
+      size: z.number().int().min(1).max(10),
+      values: z.array(NumericValueSchema).min(1).max(10),
+      tolerance: z.number().finite().nonnegative().default(0),
+    })
+    .strict()
+    .refine((a) => a.values.length === a.size, {
+      message: "values must have `size` entries",
+      path: ["values"],
+    }),
+
+  // Matrix of declared shape (row-major), graded entry by entry
+  z
+    .object({
+      kind: z.literal("matrix"),
+      rows: z.number().int().min(1).max(8),
+      cols: z.number().int().min(1).max(8),
+      values: z.array(z.array(NumericValueSchema).min(1).max(8)).min(1).max(8),
+      tolerance: z.number().finite().nonnegative().default(0),
+    })
+    .strict()
+    .refine((a) => a.values.length === a.rows && a.values.every((row) => row.length === a.cols), {
+      message: "values must be a `rows` x `cols` array",
+      path: ["values"],
+    }),
+
+  // Complex number re + im*i; tolerance bounds |expected - actual|
+  z
+    .object({
+      kind: z.literal("complex"),
+      re: z.number().finite(),
+      im: z.number().finite(),
+      tolerance: z.number().finite().nonnegative().default(0),
+    })
+    .strict(),
+
+  // Value with a unit; any compatible unit is accepted (5 km == 5000 m)
+  z
+    .object({
+      kind: z.literal("quantity"),
+      value: z.number().finite(),
+      unit: z.string().min(1).max(40),
+      // In `unit`, applied after converting the learner's answer
+      tolerance: z.number().finite().nonnegative().default(0),
+    })
+    .strict(),
+
+  // Proofs and other answers with nothing to check automatically: after writing
+  // an answer, the learner reads the model solution and ticks off the rubric
+  z
+    .object({
+      kind: z.literal("free_response"),
+      // Markdown with $inline$ / $$display$$ math, like `solution`
+      model_solution: z.string().min(1).max(20000),
+      rubric: z.array(z.string().min(1).max(300)).min(1).max(10),
     })
     .strict(),
 ]);
 
+// One step of a multi-part problem, e.g. "(a) Find the vertex."
+export const ProblemPartSchema = z
+  .object({
+    // Shown as "(a)"; defaults to the part's letter by position
+    label: z.string().regex(/^[a-z0-9]{1,4}$/).optional(),
+    prompt: z.string().min(1).max(1000),
+    answer: AnswerSchema,
+  })
+  .strict();
+
+// Translated text for one locale; math must match the English original
+export const ProblemTranslationSchema = z
+  .object({
+    prompt: z.string().min(1).max(2000),
+    prompt_latex: z.string().max(4000).optional(),
+    solution: z.string().min(1).max(20000).optional(),
+  })
+  .strict();
+
+// Bump when the problem file shape changes: copy the old schema into problem.v<N>.schema.ts
+// and add a migration in data/schema/versions.ts
+export const PROBLEM_SCHEMA_VERSION = 3;
+
+// Licenses accepted by docs/DATASET_RULES.md
+export const LICENSES = ["CC0", "CC BY 4.0", "CC BY-SA 4.0"] as const;
+export type License = (typeof LICENSES)[number];
+
+// Where a problem comes from; anything but "original" credits someone else
+export const ProvenanceSchema = z
+  .object({
+    // original: written by `author`; adapted: modified from a cited source;
+    // open-licensed: copied from one; classical: historical, public domain
+    origin: z.enum(["original", "adapted", "open-licensed", "classical"]),
+    citation: z.string().min(1).max(300).optional(),
+    url: z.string().url().max(500).optional(),
+    original_author: z.string().min(1).max(120).optional(),
+    // Negative for BCE
+    year: z.number().int().min(-3000).max(2100).optional(),
+  })
+  .strict()
+  .refine((p) => p.origin === "original" || p.citation !== undefined || p.url !== undefined, {
+    message: "Problems from elsewhere need a citation or url",
+  });
+
+export type Provenance = z.infer<typeof ProvenanceSchema>;
+
+// The current version; older files are upgraded on load (see data/schema/versions.ts),
+// and each older version keeps its own frozen copy of its fields in problem.v<N>.schema.ts
 export const ProblemSchema = z
   .object({
+    schema_version: z.literal(PROBLEM_SCHEMA_VERSION),
+
     id: z.string().regex(/^aom_[a-z0-9_]+$/),
     topic: z.string().min(1).max(60),
 
-    // Seed difficulty: initial guess (static, PR-reviewed)
-    // Use seed_difficulty preferred, difficulty as legacy fallback
-    seed_difficulty: z.number().int().min(1).max(20).optional(),
-    difficulty: z.number().int().min(1).max(20).optional(),
+    // Finer-grained tags from data/schema/skills.json (checked by validate-dataset)
+    skills: z.array(z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/)).min(1).max(6).optional(),
 
     // Keep raw prompt, but enforce "no accidental whitespace-only"
     prompt: z.string().min(1).max(2000),
@@ -33,24 +239,124 @@ export const ProblemSchema = z
     // Optional latex
     prompt_latex: z.string().max(4000).optional(),
 
-    answer: AnswerSchema,
+    // SVG files in the same directory as the problem JSON, named after the problem id
+    figures: z
+      .array(
+        z
+          .object({
+            file: z.string().regex(/^aom_[a-z0-9_]+(-[a-z0-9]+)*\.svg$/).max(120),
+            alt: z.string().min(1).max(300),
+            caption: z.string().min(1).max(300).optional(),
+          })
+          .strict()
+      )
+      .min(1)
+      .max(4)
+      .optional(),
+
+    // Single-answer problems use `answer`; multi-part problems use `parts` instead
+    answer: AnswerSchema.optional(),
+    parts: z.array(ProblemPartSchema).min(2).max(8).optional(),
+
+    // Revealed one at a time on request; each one used discounts the rating gain
+    hints: z.array(z.string().min(1).max(1000)).min(1).max(5).optional(),
 
     status: z.enum(["community", "verified"]).default("community"),
-    source: z.string().min(1).max(200),
-    license: z.string().min(1).max(80),
+    // GitHub username of the contributor
     author: z.string().min(1).max(80),
 
+    // Written solution: Markdown with $inline$ / $$display$$ math, "## " headings as steps
+    solution: z.string().min(1).max(20000).optional(),
+
     // Optional video solution URL (YouTube, Vimeo, etc.)
     solution_video_url: z.string().url().max(500).optional(),
 
+    // Keyed by locale ("es", "pt-BR"); English is the untranslated original
+    translations: z
+      .record(z.string().regex(/^[a-z]{2,3}(-[A-Z]{2})?$/), ProblemTranslationSchema)
+      .refine((t) => !Object.keys(t).some((locale) => locale === "en" || locale.startsWith("en-")), {
+        message: "English is the original text, not a translation",
+      })
+      .optional(),
+
     // If you use it, validate it
     created_at: z.string().datetime({ offset: true }).optional(),
+
+    // Seed difficulty: initial guess (static, PR-reviewed)
+    seed_difficulty: z.number().int().min(1).max(20),
+
+    provenance: ProvenanceSchema,
+    license: z.enum(LICENSES),
   })
   .strict()
-  .refine(
-    (p) => p.seed_difficulty !== undefined || p.difficulty !== undefined,
-    { message: "Either seed_difficulty or difficulty is required" }
-  );
+  .superRefine((p, ctx) => {
+    if ((p.answer === undefined) === (p.parts === undefined)) {
+      ctx.addIssue({ code: "custom", message: "Exactly one of answer or parts is required" });
+    }
+
+    if (p.parts?.some((part) => part.answer.kind === "free_response")) {
+      ctx.addIssue({ code: "custom", message: "free_response answers can't be used in parts" });
+    }
+
+    const labels = (p.parts ?? []).map((part, i) => part.label ?? String.fromCharCode(97 + i));
+    if (new Set(labels).size !== labels.length) {
+      ctx.addIssue({ code: "custom", message: "Part labels must be unique" });
+    }
+
+    if (p.solution === undefined && Object.values(p.translations ?? {}).some((t) => t.solution !== undefined)) {
+      ctx.addIssue({ code: "custom", message: "A translated solution needs an original solution" });
+    }
+  });
 
 export type Problem = z.infer<typeof ProblemSchema>;
 export type Answer = z.infer<typeof AnswerSchema>;
+export type ProblemTranslation = z.infer<typeof ProblemTranslationSchema>;
+
+// Integer or decimal range for one template parameter, e.g. { "min": 2, "max": 12 }
+const TemplateParamSchema = z
+  .object({
+    min: z.number().finite(),
+    max: z.number().finite(),
+    step: z.number().finite().positive().default(1),
+  })
+  .strict()
+  .refine((p) => p.min <= p.max, { message: "min must not exceed max" });
+
+/**
+ * A problem template: placeholders like {{a}} or {{a * b}} in the prompt are
+ * filled from seeded parameters, and the answer is computed from a formula.
+ * Expanded into ordinary problems by expandTemplate (lib/templates.ts) when
+ * lib/corpus-loader.ts reads the dataset.
+ */
+export const ProblemTemplateSchema = z
+  .object({
+    id: z.string().regex(/^aom_[a-z0-9_]+$/).max(80),
+    topic: z.string().min(1).max(60),
+    skills: z.array(z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/)).min(1).max(6).optional(),
+    seed_difficulty: z.number().int().min(1).max(20),
+
+    prompt: z.string().min(1).max(2000),
+    params: z.record(z.string().regex(/^[a-z]$/), TemplateParamSchema),
+    // Each must hold for a variant, e.g. "a > b" or "integer(a / b)"
+    constraints: z.array(z.string().min(1).max(200)).max(10).default([]),
+
+    answer: z
+      .object({
+        kind: z.literal("number"),
+        formula: z.string().min(1).max(200),
+        tolerance: z.number().finite().nonnegative().default(0),
+      })
+      .strict(),
+
+    // How many distinct variants to generate
+    variants: z.number().int().min(1).max(200),
+
+    status: z.enum(["community", "verified"]).default("community"),
+    provenance: ProvenanceSchema,
+    license: z.enum(LICENSES),
+    author: z.string().min(1).max(80),
+  })
+  .strict()
+  .refine((t) => Object.keys(t.params).length > 0, { message: "At least one parameter is required" });
+
+export type ProblemTemplate = z.infer<typeof ProblemTemplateSchema>;
@@ -0,0 +1,280 @@
+import { z } from "zod";
+
+/**
+ * Version 1: files without `schema_version`.
+ * Frozen: every field and answer kind is a copy of what version 1 allowed,
+ * so changes to problem.schema.ts never redefine it. Upgraded to the
+ * current version by data/schema/versions.ts.
+ */
+
+// A number, or an exact fraction written as "3/4"
+const NumericValueSchema = z.union([
+  z.number().finite(),
+  z.string().regex(/^-?\d+\/\d+$/),
+]);
+
+const AnswerSchema = z.discriminatedUnion("kind", [
+  z
+    .object({
+      kind: z.literal("exact"),
+      value: z.string().min(1).max(200),
+      // Alternate forms that normalize differently, e.g. "x = 2" alongside "2 = x"
+      accepted: z.array(z.string().min(1).max(200)).max(20).default([]),
+    })
+    .strict(),
+
+  z
+    .object({
+      kind: z.literal("number"),
+      value: z.number().finite(),
+      tolerance: z.number().finite().nonnegative().default(0),
+      // Fraction of |value|, e.g. 0.001 for 6.02e23; the looser of the two tolerances applies
+      rel_tolerance: z.number().finite().nonnegative().optional(),
+      // Grade by rounding both sides to this many significant figures instead
+      sig_figs: z.number().int().min(1).max(15).optional(),
+    })
+    .strict(),
+
+  // Exact rational answer, e.g. 3/4 (graded as a rational, never rounded)
+  z
+    .object({
+      kind: z.literal("fraction"),
+      numerator: z.number().int(),
+      denominator: z.number().int().positive(),
+      // Reject unreduced input like 6/8 when the answer is 3/4
+      require_lowest_terms: z.boolean().default(false),
+    })
+    .strict(),
+
+  // Symbolic answer, graded by equivalence (2x+2 == 2(x+1)), not by string
+  z
+    .object({
+      kind: z.literal("expression"),
+      value: z.string().min(1).max(200),
+      // Free variables the learner may use, e.g. ["x"] or ["theta"]
+      variables: z
+        .array(z.string().regex(/^([a-zA-Z]|alpha|beta|gamma|theta|phi|omega)$/))
+        .max(6)
+        .default([]),
+    })
+    .strict(),
+
+  // Unordered collection of numbers, e.g. all roots: [2, 3] or [-1, "1/2"]
+  z
+    .object({
+      kind: z.literal("set"),
+      values: z
+        .array(NumericValueSchema)
+        .min(1)
+        .max(20),
+      // Applied to each element independently
+      tolerance: z.number().finite().nonnegative().default(0),
+      // "ignore": {2, 2, 3} == {2, 3}; "strict": repeated roots must be listed
+      duplicates: z.enum(["ignore", "strict"]).default("ignore"),
+    })
+    .strict(),
+
+  // Union of intervals in interval notation, e.g. "(-inf, 2] U (5, inf)"
+  z
+    .object({
+      kind: z.literal("interval"),
+      value: z.string().min(1).max(200),
+      // Variable learners use in inequality notation ("x <= 2 or x > 5")
+      variable: z.string().regex(/^[a-zA-Z]$/).default("x"),
+    })
+    .strict(),
+
+  // Multiple choice; options are shuffled per session when served
+  z
+    .object({
+      kind: z.literal("choice"),
+      options: z.array(z.string().min(1).max(500)).min(2).max(8),
+      // Index into `options` as written in the file
+      correct: z.number().int().nonnegative(),
+    })
+    .strict()
+    .refine((a) => a.correct < a.options.length, {
+      message: "correct must index into options",
+      path: ["correct"],
+    }),
+
+  // Ordered tuple, e.g. a point (2, -3); arity is values.length
+  z
+    .object({
+      kind: z.literal("tuple"),
+      values: z
+        .array(NumericValueSchema)
+        .min(2)
+        .max(10),
+      // One tolerance for all components, or one per component
+      tolerance: z
+        .union([
+          z.number().finite().nonnegative(),
+          z.array(z.number().finite().nonnegative()),
+        ])
+        .default(0),
+    })
+    .strict()
+    .refine((a) => !Array.isArray(a.tolerance) || a.tolerance.length === a.values.length, {
+      message: "tolerance array must have one entry per component",
+      path: ["tolerance"],
+    }),
+
+  // Vector of declared dimension, graded entry by entry
+  z
+    .object({
+      kind: z.literal("vector"),
+      size: z.number().int().min(1).max(10),
+      values: z.array(NumericValueSchema).min(1).max(10),
+      tolerance: z.number().finite().nonnegative().default(0),
+    })
+    .strict()
+    .refine((a) => a.values.length === a.size, {
+      message: "values must have `size` entries",
+      path: ["values"],
+    }),
+
+  // Matrix of declared shape (row-major), graded entry by entry
+  z
+    .object({
+      kind: z.literal("matrix"),
+      rows: z.number().int().min(1).max(8),
+      cols: z.number().int().min(1).max(8),
+      values: z.array(z.array(NumericValueSchema).min(1).max(8)).min(1).max(8),
+      tolerance: z.number().finite().nonnegative().default(0),
+    })
+    .strict()
+    .refine((a) => a.values.length === a.rows && a.values.every((row) => row.length === a.cols), {
+      message: "values must be a `rows` x `cols` array",
+      path: ["values"],
+    }),
+
+  // Complex number re + im*i; tolerance bounds |expected - actual|
+  z
+    .object({
+      kind: z.literal("complex"),
+      re: z.number().finite(),
+      im: z.number().finite(),
+      tolerance: z.number().finite().nonnegative().default(0),
+    })
+    .strict(),
+
+  // Value with a unit; any compatible unit is accepted (5 km == 5000 m)
+  z
+    .object({
+      kind: z.literal("quantity"),
+      value: z.number().finite(),
+      unit: z.string().min(1).max(40),
+      // In `unit`, applied after converting the learner's answer
+      tolerance: z.number().finite().nonnegative().default(0),
+    })
+    .strict(),
+]);
+
+// One step of a multi-part problem, e.g. "(a) Find the vertex."
+const ProblemPartSchema = z
+  .object({
+    // Shown as "(a)"; defaults to the part's letter by position
+    label: z.string().regex(/^[a-z0-9]{1,4}$/).optional(),
+    prompt: z.string().min(1).max(1000),
+    answer: AnswerSchema,
+  })
+  .strict();
+
+// Translated text for one locale; math must match the English original
+const ProblemTranslationSchema = z
+  .object({
+    prompt: z.string().min(1).max(2000),
+    prompt_latex: z.string().max(4000).optional(),
+    solution: z.string().min(1).max(20000).optional(),
+  })
+  .strict();
+
+// Fields of version 1 apart from the difficulty; version 2 only changed the difficulty
+export const ProblemFieldsSchemaV1 = z.object({
+  id: z.string().regex(/^aom_[a-z0-9_]+$/),
+  topic: z.string().min(1).max(60),
+
+  // Finer-grained tags from data/schema/skills.json (checked by validate-dataset)
+  skills: z.array(z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/)).min(1).max(6).optional(),
+
+  // Keep raw prompt, but enforce "no accidental whitespace-only"
+  prompt: z.string().min(1).max(2000),
+
+  // Optional latex
+  prompt_latex: z.string().max(4000).optional(),
+
+  // SVG files in the same directory as the problem JSON, named after the problem id
+  figures: z
+    .array(
+      z
+        .object({
+          file: z.string().regex(/^aom_[a-z0-9_]+(-[a-z0-9]+)*\.svg$/).max(120),
+          alt: z.string().min(1).max(300),
+          caption: z.string().min(1).max(300).optional(),
+        })
+        .strict()
+    )
+    .min(1)
+    .max(4)
+    .optional(),
+
+  // Single-answer problems use `answer`; multi-part problems use `parts` instead
+  answer: AnswerSchema.optional(),
+  parts: z.array(ProblemPartSchema).min(2).max(8).optional(),
+
+  // Revealed one at a time on request; each one used discounts the rating gain
+  hints: z.array(z.string().min(1).max(1000)).min(1).max(5).optional(),
+
+  status: z.enum(["community", "verified"]).default("community"),
+  source: z.string().min(1).max(200),
+  license: z.string().min(1).max(80),
+  author: z.string().min(1).max(80),
+
+  // Written solution: Markdown with $inline$ / $$display$$ math, "## " headings as steps
+  solution: z.string().min(1).max(20000).optional(),
+
+  // Optional video solution URL (YouTube, Vimeo, etc.)
+  solution_video_url: z.string().url().max(500).optional(),
+
+  // Keyed by locale ("es", "pt-BR"); English is the untranslated original
+  translations: z
+    .record(z.string().regex(/^[a-z]{2,3}(-[A-Z]{2})?$/), ProblemTranslationSchema)
+    .refine((t) => !Object.keys(t).some((locale) => locale === "en" || locale.startsWith("en-")), {
+      message: "English is the original text, not a translation",
+    })
+    .optional(),
+
+  // If you use it, validate it
+  created_at: z.string().datetime({ offset: true }).optional(),
+});
+
+/** Cross-field checks of versions 1 and 2. */
+export function checkProblemV1(p: z.infer<typeof ProblemFieldsSchemaV1>, ctx: z.RefinementCtx): void {
+  if ((p.answer === undefined) === (p.parts === undefined)) {
+    ctx.addIssue({ code: "custom", message: "Exactly one of answer or parts is required" });
+  }
+
+  const labels = (p.parts ?? []).map((part, i) => part.label ?? String.fromCharCode(97 + i));
+  if (new Set(labels).size !== labels.length) {
+    ctx.addIssue({ code: "custom", message: "Part labels must be unique" });
+  }
+
+  if (p.solution === undefined && Object.values(p.translations ?? {}).some((t) => t.solution !== undefined)) {
+    ctx.addIssue({ code: "custom", message: "A translated solution needs an original solution" });
+  }
+}
+
+export const ProblemSchemaV1 = ProblemFieldsSchemaV1.extend({
+  schema_version: z.literal(1).optional(),
+
+  // Use seed_difficulty preferred, difficulty as legacy fallback
+  seed_difficulty: z.number().int().min(1).max(20).optional(),
+  difficulty: z.number().int().min(1).max(20).optional(),
+})
+  .strict()
+  .refine(
+    (p) => p.seed_difficulty !== undefined || p.difficulty !== undefined,
+    { message: "Either seed_difficulty or difficulty is required" }
+  )
+  .superRefine(checkProblemV1);
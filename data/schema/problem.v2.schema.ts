@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { checkProblemV1, ProblemFieldsSchemaV1 } from "./problem.v1.schema";
+
+/**
+ * Version 2: `seed_difficulty` required, free-text `source` and `license`.
+ * Frozen: otherwise the same fields as the frozen version 1. Upgraded to
+ * the current version by data/schema/versions.ts.
+ */
+export const ProblemSchemaV2 = ProblemFieldsSchemaV1.extend({
+  schema_version: z.literal(2),
+
+  seed_difficulty: z.number().int().min(1).max(20),
+})
+  .strict()
+  .superRefine(checkProblemV1);
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { LICENSES, PROBLEM_SCHEMA_VERSION, ProblemSchema, type Problem } from "./problem.schema";
+import { ProblemSchemaV1 } from "./problem.v1.schema";
+import { ProblemSchemaV2 } from "./problem.v2.schema";
+
+type RawProblem = Record<string, unknown>;
+
+// Every schema version a problem file may declare
+export const PROBLEM_SCHEMAS: Record<number, z.ZodType> = {
+  1: ProblemSchemaV1,
+  2: ProblemSchemaV2,
+  3: ProblemSchema,
+};
+
+/** "cc-by-4.0" or "CC BY 4.0" -> "CC BY 4.0"; anything unlisted is kept for validation to reject. */
+function canonicalLicense(license: unknown): unknown {
+  if (typeof license !== "string") return license;
+  const key = license.toUpperCase().replace(/[-_\s]+/g, " ").trim();
+  return LICENSES.find((l) => l.replace(/-/g, " ") === key) ?? license;
+}
+
+/** Free-text v2 `source` as a provenance object: "original" or a citation (and url). */
+function sourceToProvenance(source: unknown): RawProblem {
+  const text = String(source).trim();
+  if (text.toLowerCase() === "original") return { origin: "original" };
+  return /^https?:\/\//.test(text)
+    ? { origin: "open-licensed", url: text }
+    : { origin: "open-licensed", citation: text };
+}
+
+// Upgrades raw problem JSON from version N (the key) to N + 1
+const MIGRATIONS: Record<number, (problem: RawProblem) => RawProblem> = {
+  // v2: legacy `difficulty` folded into a required `seed_difficulty`
+  1: (problem) => {
+    const out: RawProblem = { schema_version: 2 };
+    for (const [key, value] of Object.entries(problem)) {
+      if (key === "schema_version") continue;
+      if (key === "difficulty") {
+        if (problem.seed_difficulty === undefined) out.seed_difficulty = value;
+        continue;
+      }
+      out[key] = value;
+    }
+    return out;
+  },
+
+  // v3: structured `provenance` replaces `source`; `license` must be a listed license
+  2: (problem) => {
+    const out: RawProblem = { schema_version: 3 };
+    for (const [key, value] of Object.entries(problem)) {
+      if (key === "schema_version") continue;
+      if (key === "source") out.provenance = sourceToProvenance(value);
+      else if (key === "license") out.license = canonicalLicense(value);
+      else out[key] = value;
+    }
+    return out;
+  },
+};
+
+export type ParsedProblem =
+  | { success: true; data: Problem; version: number }
+  | { success: false; error: z.ZodError; version: number };
+
+/** The version a problem file declares; files from before versioning are version 1. */
+export function schemaVersionOf(problem: unknown): number {
+  const version = (problem as RawProblem | null)?.schema_version;
+  return typeof version === "number" ? version : 1;
+}
+
+/** Apply migrations in order to bring raw problem JSON from `from` up to `to`. */
+export function migrateProblem(problem: RawProblem, from: number, to = PROBLEM_SCHEMA_VERSION): RawProblem {
+  let out = problem;
+  for (let version = from; version < to; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from schema version ${version}`);
+    out = migrate(out);
+  }
+  return out;
+}
+
+/**
+ * Validate a problem against the schema of the version it declares, then
+ * upgrade it to the current version. Errors refer to the file's own version.
+ */
+export function parseProblem(problem: unknown): ParsedProblem {
+  const version = schemaVersionOf(problem);
+  const schema = PROBLEM_SCHEMAS[version];
+
+  // Unknown versions fail against the current schema, which names the expected version
+  if (!schema || version === PROBLEM_SCHEMA_VERSION) {
+    const parsed = ProblemSchema.safeParse(problem);
+    return parsed.success
+      ? { success: true, data: parsed.data, version }
+      : { success: false, error: parsed.error, version };
+  }
+
+  const old = schema.safeParse(problem);
+  if (!old.success) return { success: false, error: old.error, version };
+
+  const parsed = ProblemSchema.safeParse(migrateProblem(problem as RawProblem, version));
+  return parsed.success
+    ? { success: true, data: parsed.data, version }
+    : { success: false, error: parsed.error, version };
+}
@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Generated by scripts/build-corpus.ts
+    "data/generated/corpus.js",
   ]),
 ]);
 
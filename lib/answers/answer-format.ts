@@ -0,0 +1,35 @@
+import type { Answer } from "@/data/schema/problem.schema";
+import { shuffleChoiceOptions, type ChoiceOption } from "./choice";
+
+/**
+ * What the client needs to know about a problem's answer to render the
+ * right input and preview. Never includes the answer value itself.
+ */
+export type AnswerFormat =
+    | { kind: "expression"; variables: string[] }
+    | { kind: "choice"; options: ChoiceOption[] }
+    | { kind: "vector"; size: number }
+    | { kind: "matrix"; rows: number; cols: number }
+    | { kind: Exclude<Answer["kind"], "expression" | "choice" | "vector" | "matrix"> };
+
+/**
+ * @param sessionHash - Seeds the per-session option order for choice answers.
+ * Without one, choice answers get no options: ids from any other seed could
+ * never match the ones the attempt route checks once a session exists.
+ */
+export function toAnswerFormat(answer: Answer, problemId: string, sessionHash: string | null): AnswerFormat {
+    if (answer.kind === "expression") {
+        return { kind: "expression", variables: answer.variables };
+    }
+    if (answer.kind === "choice") {
+        const options = sessionHash ? shuffleChoiceOptions(answer.options, sessionHash, problemId) : [];
+        return { kind: "choice", options };
+    }
+    if (answer.kind === "vector") {
+        return { kind: "vector", size: answer.size };
+    }
+    if (answer.kind === "matrix") {
+        return { kind: "matrix", rows: answer.rows, cols: answer.cols };
+    }
+    return { kind: answer.kind };
+}
@@ -0,0 +1,62 @@
+import "server-only";
+import { createHmac } from "node:crypto";
+
+export interface ChoiceOption {
+    id: string;
+    text: string;
+}
+
+/**
+ * Keyed with a server-only secret: the session hash comes from the learner's
+ * own cookie, so a plain hash would let them recompute ids and the shuffle.
+ */
+function digest(...parts: string[]): Buffer {
+    const secret = process.env.CHOICE_ID_SECRET;
+    if (!secret) throw new Error("CHOICE_ID_SECRET is not set");
+    return createHmac("sha256", secret).update(parts.join(":")).digest();
+}
+
+/**
+ * Opaque per-session option id. Never derived from the index alone,
+ * otherwise "option 0" would leak that authors list the answer first.
+ */
+export function choiceOptionId(sessionHash: string, problemId: string, index: number): string {
+    return digest(sessionHash, problemId, String(index)).toString("hex").slice(0, 12);
+}
+
+/**
+ * Shuffle options deterministically per session and problem,
+ * so reloads show the same order.
+ */
+export function shuffleChoiceOptions(
+    options: string[],
+    sessionHash: string,
+    problemId: string
+): ChoiceOption[] {
+    const bytes = digest(sessionHash, problemId, "order");
+    const order = options.map((_, i) => i);
+
+    // Fisher-Yates driven by the hash bytes (options are capped well below 32)
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = bytes[i] % (i + 1);
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    return order.map((i) => ({
+        id: choiceOptionId(sessionHash, problemId, i),
+        text: options[i],
+    }));
+}
+
+/** Map a submitted option id back to the original option index. */
+export function resolveChoiceIndex(
+    optionId: string,
+    optionCount: number,
+    sessionHash: string,
+    problemId: string
+): number | null {
+    for (let i = 0; i < optionCount; i++) {
+        if (choiceOptionId(sessionHash, problemId, i) === optionId) return i;
+    }
+    return null;
+}
@@ -0,0 +1,114 @@
+/**
+ * Complex number answers in rectangular ("3+4i", "4i+3") or polar
+ * ("5e^{0.9273i}", "5 cis(53.13°)", "2e^{i\pi/3}") form; polar angles are
+ * numbers in radians, or degrees with "°".
+ */
+import { evaluate, parseExpression } from "./math-expr";
+
+export interface Complex {
+    re: number;
+    im: number;
+}
+
+// Polar input goes through cos/sin, so exact answers need a little slack
+const ROUNDING_SLACK = 1e-9;
+
+function normalizeInput(input: string): string {
+    return input
+        .trim()
+        .replace(/^\$+|\$+$/g, "")
+        .replace(/\\(?:operatorname|text|mathrm)\{cis\}/g, "cis")
+        .replace(/\^\{?\\circ\}?|°/g, "deg")
+        .replace(/\\cdot|\\times/g, "*")
+        .replace(/\\left|\\right/g, "")
+        .replace(/\s+/g, "");
+}
+
+function evaluateReal(text: string): number | null {
+    if (text === "" || text === "+") return 1;
+    if (text === "-") return -1;
+    const node = parseExpression(text);
+    if (!node) return null;
+    const value = evaluate(node);
+    return Number.isFinite(value) ? value : null;
+}
+
+/** Angle in radians, or degrees when suffixed with "°", "^\circ" or "deg". */
+function evaluateAngle(text: string): number | null {
+    const degrees = /^(.+)deg$/.exec(text);
+    const value = evaluateReal(degrees ? degrees[1] : text);
+    if (value === null) return null;
+    return degrees ? (value * Math.PI) / 180 : value;
+}
+
+function fromPolar(r: number, theta: number): Complex {
+    return { re: r * Math.cos(theta), im: r * Math.sin(theta) };
+}
+
+/** "5e^{i\pi/3}", "e^{0.5i}", "2*e^(i*pi)" */
+function parseExponentialForm(s: string): Complex | null {
+    const m = /^(.*?)\*?e\^(?:\{(.+)\}|\((.+)\)|(.+))$/.exec(s);
+    if (!m) return null;
+
+    const exponent = m[2] ?? m[3] ?? m[4];
+    // The exponent must be i times a real angle
+    const angle = /^i\*?(.+)$/.exec(exponent)?.[1] ?? /^(.+?)\*?i$/.exec(exponent)?.[1];
+    if (!angle) return null;
+
+    const r = evaluateReal(m[1]);
+    const theta = evaluateAngle(angle);
+    return r === null || theta === null ? null : fromPolar(r, theta);
+}
+
+/** "5cis(\pi/3)", "5 cis 53.13°" */
+function parseCisForm(s: string): Complex | null {
+    const m = /^(.*?)\*?cis(?:\((.+)\)|(.+))$/.exec(s);
+    if (!m) return null;
+
+    const r = evaluateReal(m[1]);
+    const theta = evaluateAngle(m[2] ?? m[3]);
+    return r === null || theta === null ? null : fromPolar(r, theta);
+}
+
+/**
+ * Rectangular form. Treats `i` as a variable and requires the expression
+ * to be linear in it, so "3+4i", "4i+3", "\frac{1}{2}-\sqrt{3}i" all work.
+ */
+function parseRectangularForm(s: string): Complex | null {
+    const node = parseExpression(s, ["i"]);
+    if (!node) return null;
+
+    const at = (i: number) => evaluate(node, { i });
+    const re = at(0);
+    const im = at(1) - re;
+    if (!Number.isFinite(re) || !Number.isFinite(im)) return null;
+
+    // Reject i^2, 1/i etc. rather than silently misreading them
+    const linear = Math.abs(at(2) - (re + 2 * im)) <= 1e-9 * Math.max(1, Math.abs(re), Math.abs(im));
+    return linear ? { re, im } : null;
+}
+
+export function parseComplex(input: string | number): Complex | null {
+    if (typeof input === "number") {
+        return Number.isFinite(input) ? { re: input, im: 0 } : null;
+    }
+    const s = normalizeInput(input);
+    if (!s) return null;
+
+    return parseCisForm(s) ?? parseExponentialForm(s) ?? parseRectangularForm(s);
+}
+
+/** Compare by the modulus of the difference. */
+export function complexClose(expected: Complex, actual: Complex, tolerance: number): boolean {
+    const distance = Math.hypot(expected.re - actual.re, expected.im - actual.im);
+    const slack = ROUNDING_SLACK * Math.max(1, Math.hypot(expected.re, expected.im));
+    return distance <= Math.max(tolerance, slack);
+}
+
+/** Render in rectangular form, e.g. "3 - 4i", "-i", "2". */
+export function complexToLatex({ re, im }: Complex): string {
+    const imPart = (abs: number) => (abs === 1 ? "i" : `${abs}i`);
+    if (im === 0) return String(re);
+    if (re === 0) return im < 0 ? `-${imPart(-im)}` : imPart(im);
+    return `${re} ${im < 0 ? "-" : "+"} ${imPart(Math.abs(im))}`;
+}
@@ -0,0 +1,108 @@
+/**
+ * Normalization for `exact` answers, so "y = 2x + 1", "y=1+2x" and
+ * "$y = 2x + 1$" compare equal, as do "sqrt(2)", "√2" and "\sqrt{2}".
+ */
+
+const SYMBOLS: [RegExp, string][] = [
+    [/[−–—]/g, "-"],
+    [/[×·⋅]|\\(?:cdot|times)\b/g, "*"],
+    [/÷|\\div\b/g, "/"],
+    [/≤|\\(?:leq?|leqslant)\b/g, "<="],
+    [/≥|\\(?:geq?|geqslant)\b/g, ">="],
+    [/≠|\\(?:neq?)\b/g, "!="],
+    [/π|\\pi\b/g, "pi"],
+    [/θ|\\theta\b/g, "theta"],
+    [/∞|\\infty\b/g, "inf"],
+    [/²/g, "^2"],
+    [/³/g, "^3"],
+];
+
+/** Rewrite LaTeX constructs into the plain form a learner would type. */
+function latexToText(s: string): string {
+    let out = s
+        .replace(/\\left|\\right/g, "")
+        .replace(/\\(?:text|mathrm|operatorname)\{([^{}]*)\}/g, "$1")
+        .replace(/\\[,;:! ]|~/g, " ")
+        .replace(/\\(sin|cos|tan|log|ln|exp)\b/g, "$1");
+
+    // Innermost first so nested \frac / \sqrt unwrap cleanly
+    for (let i = 0; i < 10; i++) {
+        const next = out
+            .replace(/\\[dt]?frac\{([^{}]*)\}\{([^{}]*)\}/g, (_m, a: string, b: string) => `${group(a)}/${group(b)}`)
+            .replace(/\\sqrt\{([^{}]*)\}/g, "sqrt($1)")
+            .replace(/\^\{([^{}]*)\}/g, (_m, e: string) => `^${group(e)}`);
+        if (next === out) break;
+        out = next;
+    }
+    return out.replace(/\\sqrt\s*([a-z0-9.]+)/gi, "sqrt($1)");
+}
+
+/** Parenthesize anything longer than a single number or identifier. */
+function group(s: string): string {
+    const t = s.trim();
+    return /^[a-z0-9.]+$/i.test(t) ? t : `(${t})`;
+}
+
+/**
+ * Reorder the top-level terms of a sum, so "2x+1" and "1+2x" agree.
+ * A +/- only splits terms when it follows an operand, which leaves
+ * exponents ("x^-1") and scientific notation alone.
+ */
+function sortSum(side: string): string {
+    const terms: string[] = [];
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < side.length; i++) {
+        const ch = side[i];
+        if (ch === "(" || ch === "[") depth++;
+        else if (ch === ")" || ch === "]") depth--;
+        else if ((ch === "+" || ch === "-") && depth === 0 && i > 0 && /[a-z0-9.)\]]/i.test(side[i - 1])) {
+            if (ch === "-" && /\de$/i.test(side.slice(start, i))) continue;
+            terms.push(side.slice(start, i));
+            start = i;
+        }
+    }
+    terms.push(side.slice(start));
+    if (terms.length < 2) return side;
+
+    return terms
+        .map((t) => (/^[+-]/.test(t) ? t : `+${t}`))
+        .sort()
+        .join("")
+        .replace(/^\+/, "");
+}
+
+/**
+ * Canonical form of an exact answer: lowercased, whitespace-free, unicode
+ * and LaTeX rewritten to plain text, and simple sums put in a fixed order
+ * on each side of any (in)equality or comma.
+ */
+export function normalizeExactAnswer(input: string): string {
+    let s = input.trim().replace(/^\$+|\$+$/g, "");
+    for (const [pattern, replacement] of SYMBOLS) s = s.replace(pattern, replacement);
+
+    s = latexToText(s)
+        .toLowerCase()
+        .replace(/√\s*([a-z0-9.]+)/g, "sqrt($1)")
+        .replace(/√/g, "sqrt")
+        .replace(/\bsqrt\s+([a-z0-9.]+)/g, "sqrt($1)")
+        .replace(/\bsqrt([0-9.]+)/g, "sqrt($1)")
+        .replace(/\s+/g, "")
+        .replace(/(\d)\*(?=[a-z(])/g, "$1");
+
+    return s
+        .split(/(<=|>=|!=|=|<|>|,)/)
+        .map((part, i) => (i % 2 === 0 ? sortSum(part) : part))
+        .join("");
+}
+
+/** True when the input matches the answer value or any accepted alternative. */
+export function exactAnswerMatches(
+    answer: { value: string; accepted: string[] },
+    input: string | number
+): boolean {
+    const given = normalizeExactAnswer(String(input));
+    if (!given) return false;
+    return [answer.value, ...answer.accepted].some((form) => normalizeExactAnswer(form) === given);
+}
@@ -0,0 +1,222 @@
+/**
+ * Unions of real intervals, e.g. domain/range and inequality solutions.
+ * Accepts interval notation ("(-inf, 2] U (5, inf)"), inequalities
+ * ("x <= 2 or x > 5", "1 < x <= 3") and LaTeX ("\infty", "\cup", "\leq").
+ */
+import { evaluate, exprToLatex, parseExpression } from "./math-expr";
+
+export interface Endpoint {
+    value: number; // ±Infinity for unbounded ends
+    latex: string;
+}
+
+export interface Interval {
+    lo: Endpoint;
+    hi: Endpoint;
+    loClosed: boolean;
+    hiClosed: boolean;
+}
+
+const NEG_INF: Endpoint = { value: -Infinity, latex: "-\\infty" };
+const POS_INF: Endpoint = { value: Infinity, latex: "\\infty" };
+
+const MAX_PIECES = 20;
+
+function normalizeInput(input: string): string {
+    return input
+        .trim()
+        .replace(/^\$+|\$+$/g, "")
+        .replace(/\\left|\\right/g, "")
+        .replace(/\\infty|∞/g, "inf")
+        .replace(/\binfinity\b/gi, "inf")
+        .replace(/\\cup|∪/g, " U ")
+        .replace(/\\(?:leq?|leqslant)\b|≤|=</g, "<=")
+        .replace(/\\(?:geq?|geqslant)\b|≥|=>/g, ">=")
+        .replace(/\\lt\b/g, "<")
+        .replace(/\\gt\b/g, ">")
+        .replace(/\\text\{\s*(or|and)\s*\}|\\(?:lor|vee)\b|∨/g, (_m, word) => ` ${word ?? "or"} `)
+        .replace(/\\(?:land|wedge)\b|∧/g, " and ")
+        .replace(/\\mathbb\{R\}|ℝ/g, "R")
+        .replace(/\\(?:emptyset|varnothing)\b|∅/g, "{}")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+function parseEndpoint(text: string): Endpoint | null {
+    const t = text.trim().replace(/\s+/g, "");
+    if (/^(\+)?inf$/i.test(t)) return POS_INF;
+    if (/^-inf$/i.test(t)) return NEG_INF;
+
+    const node = parseExpression(t);
+    if (!node) return null;
+    const value = evaluate(node);
+    return Number.isFinite(value) ? { value, latex: exprToLatex(node) } : null;
+}
+
+/** "(a, b]" / "[a, b)" / "{a}" */
+function parseIntervalPiece(piece: string): Interval | null {
+    const singleton = /^\\?\{(.+?)\\?\}$/.exec(piece);
+    if (singleton) {
+        const point = parseEndpoint(singleton[1]);
+        return point && { lo: point, hi: point, loClosed: true, hiClosed: true };
+    }
+
+    const m = /^([([])(.+),(.+)([)\]])$/.exec(piece.trim());
+    if (!m) return null;
+    const lo = parseEndpoint(m[2]);
+    const hi = parseEndpoint(m[3]);
+    if (!lo || !hi) return null;
+    return { lo, hi, loClosed: m[1] === "[", hiClosed: m[4] === "]" };
+}
+
+type Comparator = "<" | "<=" | ">" | ">=" | "=";
+
+/** Interval for `variable OP bound`. */
+function halfLine(op: Comparator, bound: Endpoint): Interval {
+    switch (op) {
+        case "<":
+            return { lo: NEG_INF, hi: bound, loClosed: false, hiClosed: false };
+        case "<=":
+            return { lo: NEG_INF, hi: bound, loClosed: false, hiClosed: true };
+        case ">":
+            return { lo: bound, hi: POS_INF, loClosed: false, hiClosed: false };
+        case ">=":
+            return { lo: bound, hi: POS_INF, loClosed: true, hiClosed: false };
+        case "=":
+            return { lo: bound, hi: bound, loClosed: true, hiClosed: true };
+    }
+}
+
+const FLIP: Record<Comparator, Comparator> = { "<": ">", "<=": ">=", ">": "<", ">=": "<=", "=": "=" };
+
+function intersect(a: Interval, b: Interval): Interval {
+    const lo = a.lo.value > b.lo.value ? a.lo : b.lo;
+    const hi = a.hi.value < b.hi.value ? a.hi : b.hi;
+    const loClosed = a.lo.value === b.lo.value ? a.loClosed && b.loClosed : lo === a.lo ? a.loClosed : b.loClosed;
+    const hiClosed = a.hi.value === b.hi.value ? a.hiClosed && b.hiClosed : hi === a.hi ? a.hiClosed : b.hiClosed;
+    return { lo, hi, loClosed, hiClosed };
+}
+
+/** "x > 5", "5 < x", "1 < x <= 3", "x >= 0 and x < 4" */
+function parseInequalityClause(clause: string, variable: string): Interval | null {
+    const conjuncts = clause.split(/\band\b/);
+    if (conjuncts.length > 1) {
+        const parts = conjuncts.map((c) => parseInequalityClause(c, variable));
+        if (parts.some((p) => !p)) return null;
+        return (parts as Interval[]).reduce(intersect);
+    }
+
+    const tokens = clause.split(/(<=|>=|<|>|=)/).map((t) => t.trim());
+    const isVar = (t: string) => t === variable;
+
+    if (tokens.length === 3) {
+        const [left, op, right] = tokens as [string, Comparator, string];
+        if (isVar(left)) {
+            const bound = parseEndpoint(right);
+            return bound && halfLine(op, bound);
+        }
+        if (isVar(right)) {
+            const bound = parseEndpoint(left);
+            return bound && halfLine(FLIP[op], bound);
+        }
+        return null;
+    }
+
+    if (tokens.length === 5 && isVar(tokens[2])) {
+        const [left, op1, , op2, right] = tokens as [string, Comparator, string, Comparator, string];
+        const a = parseEndpoint(left);
+        const b = parseEndpoint(right);
+        if (!a || !b) return null;
+        return intersect(halfLine(FLIP[op1], a), halfLine(op2, b));
+    }
+
+    return null;
+}
+
+/** Drop empty pieces, sort, and merge overlapping or touching intervals. */
+export function normalizeIntervals(intervals: Interval[]): Interval[] {
+    const pieces = intervals
+        .map((iv) => ({
+            ...iv,
+            // Infinite ends are always open
+            loClosed: iv.loClosed && Number.isFinite(iv.lo.value),
+            hiClosed: iv.hiClosed && Number.isFinite(iv.hi.value),
+        }))
+        .filter((iv) =>
+            iv.lo.value < iv.hi.value || (iv.lo.value === iv.hi.value && iv.loClosed && iv.hiClosed)
+        )
+        .sort((a, b) => a.lo.value - b.lo.value || Number(b.loClosed) - Number(a.loClosed));
+
+    const merged: Interval[] = [];
+    for (const iv of pieces) {
+        const last = merged[merged.length - 1];
+        const touches = last && (
+            last.hi.value > iv.lo.value ||
+            (last.hi.value === iv.lo.value && (last.hiClosed || iv.loClosed))
+        );
+        if (!touches) {
+            merged.push({ ...iv });
+        } else if (iv.hi.value > last.hi.value) {
+            last.hi = iv.hi;
+            last.hiClosed = iv.hiClosed;
+        } else if (iv.hi.value === last.hi.value) {
+            last.hiClosed = last.hiClosed || iv.hiClosed;
+        }
+    }
+    return merged;
+}
+
+/**
+ * Parse a union of intervals in interval or inequality notation.
+ * Returns the normalized union, or null if the input is not understood.
+ */
+export function parseIntervalUnion(input: string, variable = "x"): Interval[] | null {
+    const s = normalizeInput(input);
+    if (!s) return null;
+
+    if (/^(R|\(-inf,\s?inf\))$/.test(s) || /^all real numbers$/i.test(s)) {
+        return [{ lo: NEG_INF, hi: POS_INF, loClosed: false, hiClosed: false }];
+    }
+    if (s === "{}") return [];
+
+    const isInequality = /[<>=]/.test(s);
+    const pieces = isInequality ? s.split(/\bor\b|\bU\b/) : s.split(/\bU\b/);
+    if (pieces.length > MAX_PIECES) return null;
+
+    const intervals: Interval[] = [];
+    for (const piece of pieces) {
+        const iv = isInequality
+            ? parseInequalityClause(piece, variable)
+            : parseIntervalPiece(piece.trim());
+        if (!iv) return null;
+        intervals.push(iv);
+    }
+    return normalizeIntervals(intervals);
+}
+
+function sameEndpoint(a: Endpoint, b: Endpoint): boolean {
+    if (!Number.isFinite(a.value) || !Number.isFinite(b.value)) return a.value === b.value;
+    return Math.abs(a.value - b.value) <= 1e-9 * Math.max(1, Math.abs(a.value));
+}
+
+/** Compare two normalized unions. */
+export function intervalUnionsEqual(a: Interval[], b: Interval[]): boolean {
+    if (a.length !== b.length) return false;
+    return a.every((iv, i) =>
+        sameEndpoint(iv.lo, b[i].lo) &&
+        sameEndpoint(iv.hi, b[i].hi) &&
+        iv.loClosed === b[i].loClosed &&
+        iv.hiClosed === b[i].hiClosed
+    );
+}
+
+/** Canonical LaTeX, e.g. "(-\infty, 2] \cup (5, \infty)". */
+export function intervalUnionToLatex(intervals: Interval[]): string {
+    if (intervals.length === 0) return "\\varnothing";
+    return intervals
+        .map((iv) => {
+            if (iv.lo.value === iv.hi.value) return `\\{${iv.lo.latex}\\}`;
+            return `${iv.loClosed ? "[" : "("}${iv.lo.latex}, ${iv.hi.latex}${iv.hiClosed ? "]" : ")"}`;
+        })
+        .join(" \\cup ");
+}
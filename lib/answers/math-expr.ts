@@ -0,0 +1,564 @@
+/**
+ * Small, safe math expression parser and evaluator (no eval).
+ * Accepts plain syntax ("2(x+1)", "sin 2x", "sin(x)^2") and common LaTeX
+ * ("\frac{1}{2}", "\sqrt{x}", "\left(x\right)", "\cdot").
+ */
+
+export type ExprNode =
+    | { type: "num"; value: number }
+    | { type: "const"; name: "pi" | "e" }
+    | { type: "var"; name: string }
+    | { type: "neg"; arg: ExprNode }
+    | { type: "binary"; op: "+" | "-" | "*" | "/" | "^"; left: ExprNode; right: ExprNode }
+    | { type: "call"; fn: FunctionName; arg: ExprNode };
+
+const FUNCTIONS = {
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    sec: (x: number) => 1 / Math.cos(x),
+    csc: (x: number) => 1 / Math.sin(x),
+    cot: (x: number) => 1 / Math.tan(x),
+    arcsin: Math.asin,
+    arccos: Math.acos,
+    arctan: Math.atan,
+    sinh: Math.sinh,
+    cosh: Math.cosh,
+    tanh: Math.tanh,
+    ln: Math.log,
+    log: Math.log10,
+    exp: Math.exp,
+    sqrt: Math.sqrt,
+    abs: Math.abs,
+} satisfies Record<string, (x: number) => number>;
+
+export type FunctionName = keyof typeof FUNCTIONS;
+
+const FUNCTION_ALIASES: Record<string, FunctionName> = {
+    asin: "arcsin",
+    acos: "arccos",
+    atan: "arctan",
+};
+
+const MAX_DEPTH = 64;
+
+class ParseError extends Error { }
+
+// --- LaTeX / unicode normalization ---
+
+/** Read a `{...}` group (or a single character) starting at `i`. */
+function readGroup(s: string, i: number): [string, number] {
+    while (s[i] === " ") i++;
+    if (s[i] !== "{") {
+        if (i >= s.length) throw new ParseError("Missing argument");
+        return [s[i], i + 1];
+    }
+    let depth = 0;
+    for (let j = i; j < s.length; j++) {
+        if (s[j] === "{") depth++;
+        else if (s[j] === "}" && --depth === 0) return [s.slice(i + 1, j), j + 1];
+    }
+    throw new ParseError("Unbalanced braces");
+}
+
+/** Rewrite LaTeX commands into the plain syntax understood by the tokenizer. */
+export function latexToPlain(input: string): string {
+    let out = "";
+    let i = 0;
+
+    while (i < input.length) {
+        const ch = input[i];
+
+        if (ch === "{") {
+            out += "(";
+            i++;
+            continue;
+        }
+        if (ch === "}") {
+            out += ")";
+            i++;
+            continue;
+        }
+        if (ch !== "\\") {
+            out += ch;
+            i++;
+            continue;
+        }
+
+        const m = /^\\([a-zA-Z]+|.)/.exec(input.slice(i));
+        if (!m) throw new ParseError("Dangling backslash");
+        const cmd = m[1];
+        i += m[0].length;
+
+        switch (cmd) {
+            case "frac":
+            case "dfrac":
+            case "tfrac": {
+                const [num, afterNum] = readGroup(input, i);
+                const [den, afterDen] = readGroup(input, afterNum);
+                out += `((${latexToPlain(num)})/(${latexToPlain(den)}))`;
+                i = afterDen;
+                break;
+            }
+            case "sqrt": {
+                let index: string | null = null;
+                if (input[i] === "[") {
+                    const close = input.indexOf("]", i);
+                    if (close === -1) throw new ParseError("Unbalanced brackets");
+                    index = input.slice(i + 1, close);
+                    i = close + 1;
+                }
+                const [radicand, after] = readGroup(input, i);
+                out += index === null
+                    ? `sqrt(${latexToPlain(radicand)})`
+                    : `((${latexToPlain(radicand)})^(1/(${latexToPlain(index)})))`;
+                i = after;
+                break;
+            }
+            case "cdot":
+            case "times":
+                out += "*";
+                break;
+            case "div":
+                out += "/";
+                break;
+            case "left":
+            case "right":
+                // Delimiter follows; "\left." means no delimiter
+                if (input[i] === ".") i++;
+                break;
+            case "operatorname":
+            case "mathrm":
+            case "text": {
+                const [name, after] = readGroup(input, i);
+                out += ` ${name} `;
+                i = after;
+                break;
+            }
+            case ",":
+            case ";":
+            case ":":
+            case "!":
+            case " ":
+                break;
+            case "{":
+                out += "(";
+                break;
+            case "}":
+                out += ")";
+                break;
+            case "|":
+                out += "|";
+                break;
+            default:
+                // \pi, \sin, \ln, \theta ... -> bare names
+                out += ` ${cmd} `;
+        }
+    }
+
+    return out;
+}
+
+const UNICODE_REPLACEMENTS: [RegExp, string][] = [
+    [/[−–]/g, "-"],
+    [/[×·⋅]/g, "*"],
+    [/÷/g, "/"],
+    [/π/g, " pi "],
+    [/θ/g, " theta "],
+    [/√/g, " sqrt "],
+    [/²/g, "^2"],
+    [/³/g, "^3"],
+];
+
+function normalize(input: string): string {
+    let s = input.trim().replace(/^\$+|\$+$/g, "");
+    for (const [re, rep] of UNICODE_REPLACEMENTS) s = s.replace(re, rep);
+    return latexToPlain(s);
+}
+
+// --- Tokenizer ---
+
+type Token =
+    | { t: "num"; value: number }
+    | { t: "const"; name: "pi" | "e" }
+    | { t: "var"; name: string }
+    | { t: "fn"; name: FunctionName }
+    | { t: "op"; op: string };
+
+/**
+ * Split a run of letters into functions, constants and declared variables,
+ * preferring the longest match (so "xsinx" -> x, sin, x).
+ */
+function splitWord(word: string, variables: ReadonlySet<string>): Token[] {
+    const candidates = [
+        ...Object.keys(FUNCTIONS),
+        ...Object.keys(FUNCTION_ALIASES),
+        ...variables,
+        "pi",
+    ].sort((a, b) => b.length - a.length);
+
+    const tokens: Token[] = [];
+    let i = 0;
+    outer: while (i < word.length) {
+        for (const name of candidates) {
+            if (!word.startsWith(name, i)) continue;
+            if (variables.has(name)) tokens.push({ t: "var", name });
+            else if (name === "pi") tokens.push({ t: "const", name: "pi" });
+            else tokens.push({ t: "fn", name: FUNCTION_ALIASES[name] ?? (name as FunctionName) });
+            i += name.length;
+            continue outer;
+        }
+        if (word[i] === "e") {
+            tokens.push({ t: "const", name: "e" });
+            i++;
+            continue;
+        }
+        throw new ParseError(`Unknown symbol "${word[i]}"`);
+    }
+    return tokens;
+}
+
+function tokenize(s: string, variables: ReadonlySet<string>): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < s.length) {
+        const ch = s[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        const num = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/.exec(s.slice(i));
+        if (num) {
+            // "1.2.3" is a typo, not 1.2 × 0.3
+            if (s[i + num[0].length] === ".") throw new ParseError("Malformed number");
+            tokens.push({ t: "num", value: Number(num[0]) });
+            i += num[0].length;
+            continue;
+        }
+
+        const word = /^[a-zA-Z]+/.exec(s.slice(i));
+        if (word) {
+            tokens.push(...splitWord(word[0], variables));
+            i += word[0].length;
+            continue;
+        }
+
+        if ("+-*/^()[]|".includes(ch)) {
+            const op = ch === "[" ? "(" : ch === "]" ? ")" : ch;
+            tokens.push({ t: "op", op });
+            i++;
+            continue;
+        }
+
+        throw new ParseError(`Unexpected character "${ch}"`);
+    }
+
+    return tokens;
+}
+
+// --- Parser (recursive descent) ---
+
+class Parser {
+    private pos = 0;
+    private depth = 0;
+
+    constructor(private readonly tokens: Token[]) { }
+
+    parse(): ExprNode {
+        const node = this.expr();
+        if (this.pos < this.tokens.length) throw new ParseError("Unexpected input");
+        return node;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.pos];
+    }
+
+    private isOp(op: string): boolean {
+        const tok = this.peek();
+        return tok?.t === "op" && tok.op === op;
+    }
+
+    private expect(op: string): void {
+        if (!this.isOp(op)) throw new ParseError(`Expected "${op}"`);
+        this.pos++;
+    }
+
+    private enter(): void {
+        if (++this.depth > MAX_DEPTH) throw new ParseError("Expression too deep");
+    }
+
+    private expr(): ExprNode {
+        this.enter();
+        let left = this.term();
+        while (this.isOp("+") || this.isOp("-")) {
+            const op = (this.tokens[this.pos++] as { op: "+" | "-" }).op;
+            left = { type: "binary", op, left, right: this.term() };
+        }
+        this.depth--;
+        return left;
+    }
+
+    /**
+     * Whether the next token can start an implicitly multiplied factor.
+     * Never a number: "12 5" or "1 000" is a typo or a digit grouping,
+     * not 60 or 0, so it must fail to parse rather than grade.
+     */
+    private startsFactor(): boolean {
+        const tok = this.peek();
+        if (!tok || tok.t === "num") return false;
+        if (tok.t === "op") return tok.op === "(";
+        return true;
+    }
+
+    private term(): ExprNode {
+        let left = this.unary();
+        for (; ;) {
+            if (this.isOp("*") || this.isOp("/")) {
+                const op = (this.tokens[this.pos++] as { op: "*" | "/" }).op;
+                left = { type: "binary", op, left, right: this.unary() };
+            } else if (this.startsFactor()) {
+                left = { type: "binary", op: "*", left, right: this.power() };
+            } else {
+                return left;
+            }
+        }
+    }
+
+    private unary(): ExprNode {
+        if (this.isOp("-")) {
+            this.pos++;
+            return { type: "neg", arg: this.unary() };
+        }
+        if (this.isOp("+")) {
+            this.pos++;
+            return this.unary();
+        }
+        return this.power();
+    }
+
+    private power(): ExprNode {
+        const base = this.primary();
+        if (this.isOp("^")) {
+            this.pos++;
+            // Right-associative; allows 2^-1
+            return { type: "binary", op: "^", left: base, right: this.unary() };
+        }
+        return base;
+    }
+
+    /**
+     * Argument of a function written without parentheses. It takes the
+     * juxtaposed variables and constants that follow, so "sin 2x" is sin(2x)
+     * and "sin x^2" is sin(x^2), but stops at an operator, a parenthesis or
+     * another function: "sin x cos x" is sin(x)·cos(x).
+     */
+    private bareArgument(): ExprNode {
+        let arg = this.power();
+        for (; ;) {
+            const tok = this.peek();
+            if (tok?.t !== "var" && tok?.t !== "const") return arg;
+            arg = { type: "binary", op: "*", left: arg, right: this.power() };
+        }
+    }
+
+    private primary(): ExprNode {
+        const tok = this.peek();
+        if (!tok) throw new ParseError("Unexpected end of input");
+        this.pos++;
+
+        switch (tok.t) {
+            case "num":
+                return { type: "num", value: tok.value };
+            case "const":
+                return { type: "const", name: tok.name };
+            case "var":
+                return { type: "var", name: tok.name };
+            case "fn": {
+                // sin(x), sin x, sin^2 x; a power after the parentheses applies
+                // to the result, so sin(x)^2 is (sin x)^2
+                let exponent: ExprNode | null = null;
+                if (this.isOp("^")) {
+                    this.pos++;
+                    exponent = this.primary();
+                }
+                const arg = this.isOp("(") ? this.primary() : this.bareArgument();
+                const node: ExprNode = { type: "call", fn: tok.name, arg };
+                return exponent ? { type: "binary", op: "^", left: node, right: exponent } : node;
+            }
+            case "op":
+                if (tok.op === "(") {
+                    const inner = this.expr();
+                    this.expect(")");
+                    return inner;
+                }
+                if (tok.op === "|") {
+                    const inner = this.expr();
+                    this.expect("|");
+                    return { type: "call", fn: "abs", arg: inner };
+                }
+                throw new ParseError(`Unexpected "${tok.op}"`);
+        }
+    }
+}
+
+/**
+ * Parse an expression in the given variables.
+ * Returns null if the input is not a well-formed expression.
+ */
+export function parseExpression(input: string, variables: readonly string[] = []): ExprNode | null {
+    try {
+        const tokens = tokenize(normalize(input), new Set(variables));
+        if (tokens.length === 0) return null;
+        return new Parser(tokens).parse();
+    } catch (e) {
+        if (e instanceof ParseError) return null;
+        throw e;
+    }
+}
+
+// --- Evaluation ---
+
+export function evaluate(node: ExprNode, scope: Record<string, number> = {}): number {
+    switch (node.type) {
+        case "num":
+            return node.value;
+        case "const":
+            return node.name === "pi" ? Math.PI : Math.E;
+        case "var":
+            return scope[node.name] ?? NaN;
+        case "neg":
+            return -evaluate(node.arg, scope);
+        case "call":
+            return FUNCTIONS[node.fn](evaluate(node.arg, scope));
+        case "binary": {
+            const a = evaluate(node.left, scope);
+            const b = evaluate(node.right, scope);
+            switch (node.op) {
+                case "+":
+                    return a + b;
+                case "-":
+                    return a - b;
+                case "*":
+                    return a * b;
+                case "/":
+                    return a / b;
+                case "^":
+                    return Math.pow(a, b);
+            }
+        }
+    }
+}
+
+/** Deterministic PRNG so grading is reproducible. */
+export function mulberry32(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = seed;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const SAMPLE_COUNT = 24;
+const MIN_VALID_SAMPLES = 8;
+
+function closeEnough(a: number, b: number): boolean {
+    return Math.abs(a - b) <= 1e-7 * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+/**
+ * Decide whether two expressions are equivalent by evaluating both at
+ * deterministic sample points. Points where the expected expression is
+ * undefined (e.g. ln of a negative) are skipped.
+ */
+export function expressionsEquivalent(
+    expected: ExprNode,
+    actual: ExprNode,
+    variables: readonly string[]
+): boolean {
+    const rand = mulberry32(0x5eed);
+    let valid = 0;
+
+    for (let i = 0; i < SAMPLE_COUNT * 4 && valid < SAMPLE_COUNT; i++) {
+        const scope: Record<string, number> = {};
+        for (const v of variables) {
+            // Mix small and moderate magnitudes, both signs
+            const magnitude = i % 2 === 0 ? 2 : 10;
+            scope[v] = (rand() * 2 - 1) * magnitude;
+        }
+
+        const want = evaluate(expected, scope);
+        if (!Number.isFinite(want)) continue;
+
+        const got = evaluate(actual, scope);
+        if (!Number.isFinite(got) || !closeEnough(want, got)) return false;
+        valid++;
+
+        // Constant expressions only need one point
+        if (variables.length === 0) break;
+    }
+
+    return valid >= (variables.length === 0 ? 1 : MIN_VALID_SAMPLES);
+}
+
+// --- LaTeX rendering ---
+
+const PRECEDENCE = { "+": 1, "-": 1, "*": 2, "/": 2, neg: 3, "^": 4 } as const;
+
+function precedence(node: ExprNode): number {
+    if (node.type === "binary") return PRECEDENCE[node.op];
+    if (node.type === "neg") return PRECEDENCE.neg;
+    return 5;
+}
+
+function wrap(node: ExprNode, minPrecedence: number): string {
+    const latex = exprToLatex(node);
+    return precedence(node) < minPrecedence ? `\\left(${latex}\\right)` : latex;
+}
+
+/** Render a parsed expression as LaTeX (used for answer previews). */
+export function exprToLatex(node: ExprNode): string {
+    switch (node.type) {
+        case "num":
+            return String(node.value);
+        case "const":
+            return node.name === "pi" ? "\\pi" : "e";
+        case "var":
+            return node.name.length > 1 ? `\\${node.name}` : node.name;
+        case "neg":
+            return `-${wrap(node.arg, PRECEDENCE.neg)}`;
+        case "call":
+            if (node.fn === "sqrt") return `\\sqrt{${exprToLatex(node.arg)}}`;
+            if (node.fn === "abs") return `\\left|${exprToLatex(node.arg)}\\right|`;
+            if (node.fn === "exp") return `e^{${exprToLatex(node.arg)}}`;
+            return `\\${node.fn}\\left(${exprToLatex(node.arg)}\\right)`;
+        case "binary":
+            switch (node.op) {
+                case "+":
+                    return `${wrap(node.left, 1)} + ${wrap(node.right, 1)}`;
+                case "-":
+                    return `${wrap(node.left, 1)} - ${wrap(node.right, 2)}`;
+                case "*": {
+                    const left = wrap(node.left, 2);
+                    const right = wrap(node.right, 3);
+                    // 2x, 3\sin(x): juxtapose a leading number with a non-number
+                    const implicit = node.left.type === "num" && node.right.type !== "num" && node.right.type !== "neg";
+                    return implicit ? `${left}${right}` : `${left} \\cdot ${right}`;
+                }
+                case "/":
+                    return `\\frac{${exprToLatex(node.left)}}{${exprToLatex(node.right)}}`;
+                case "^": {
+                    // exp(x)^2 would otherwise render as a double superscript
+                    const base = node.left.type === "call" && node.left.fn === "exp"
+                        ? `\\left(${exprToLatex(node.left)}\\right)`
+                        : wrap(node.left, 5);
+                    return `${base}^{${exprToLatex(node.right)}}`;
+                }
+            }
+    }
+}
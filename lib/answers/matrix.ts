@@ -0,0 +1,100 @@
+/**
+ * Vectors and matrices for linear algebra answers.
+ * Accepts LaTeX environments ("\begin{pmatrix} 1 & 2 \\ 3 & 4 \end{pmatrix}")
+ * and plain nested lists ("[[1,2],[3,4]]").
+ */
+import { elementToLatex, elementsMatch, parseSetElement, type SetElement } from "./number-set";
+import { parseTuple } from "./tuple";
+
+export type Matrix = SetElement[][];
+
+const MAX_DIM = 10;
+
+function parseRow(entries: string[]): SetElement[] | null {
+    const row: SetElement[] = [];
+    for (const entry of entries) {
+        const el = parseSetElement(entry);
+        if (!el) return null;
+        row.push(el);
+    }
+    return row;
+}
+
+/** Split "[[1,2],[3,4]]" into ["1,2", "3,4"]. */
+function splitNestedList(s: string): string[] | null {
+    const inner = /^\[([\s\S]*)\]$/.exec(s)?.[1].trim();
+    if (!inner) return null;
+
+    const rows: string[] = [];
+    const rest = inner.replace(/\[([^[\]]*)\]/g, (_m, row: string) => {
+        rows.push(row);
+        return "";
+    });
+    // Only separators may remain between rows
+    return /^[\s,]*$/.test(rest) && rows.length > 0 ? rows : null;
+}
+
+/**
+ * Parse a matrix. Returns null unless the input is a well-formed,
+ * rectangular matrix of numbers or fractions.
+ */
+export function parseMatrix(input: string): Matrix | null {
+    const s = input.trim().replace(/^\$+|\$+$/g, "").trim();
+
+    let rowTexts: string[] | null;
+    let separator: string;
+
+    const env = /^\\begin\{([pbBvV]?matrix)\}([\s\S]*)\\end\{\1\}$/.exec(s);
+    if (env) {
+        rowTexts = env[2].split(/\\\\/).map((r) => r.trim()).filter(Boolean);
+        separator = "&";
+    } else {
+        rowTexts = splitNestedList(s);
+        separator = ",";
+    }
+    if (!rowTexts || rowTexts.length === 0 || rowTexts.length > MAX_DIM) return null;
+
+    const matrix: Matrix = [];
+    for (const text of rowTexts) {
+        const entries = text.split(separator);
+        if (entries.length > MAX_DIM) return null;
+        const row = parseRow(entries);
+        if (!row) return null;
+        matrix.push(row);
+    }
+
+    const cols = matrix[0].length;
+    return matrix.every((row) => row.length === cols) ? matrix : null;
+}
+
+/**
+ * Parse a vector: a row or column matrix, "[1, 2, 3]", "(1, 2, 3)"
+ * or "\langle 1, 2, 3 \rangle".
+ */
+export function parseVector(input: string): SetElement[] | null {
+    const matrix = parseMatrix(input);
+    if (matrix) {
+        if (matrix.length === 1) return matrix[0];
+        if (matrix.every((row) => row.length === 1)) return matrix.map((row) => row[0]);
+        return null;
+    }
+    return parseTuple(input);
+}
+
+export function matricesMatch(expected: Matrix, actual: Matrix, tolerance: number): boolean {
+    if (expected.length !== actual.length) return false;
+    return expected.every((row, i) =>
+        row.length === actual[i].length &&
+        row.every((want, j) => elementsMatch(want, actual[i][j], tolerance))
+    );
+}
+
+export function matrixToLatex(matrix: Matrix): string {
+    const body = matrix.map((row) => row.map(elementToLatex).join(" & ")).join(" \\\\ ");
+    return `\\begin{pmatrix} ${body} \\end{pmatrix}`;
+}
+
+/** Vectors render as columns. */
+export function vectorToLatex(values: SetElement[]): string {
+    return matrixToLatex(values.map((v) => [v]));
+}
@@ -0,0 +1,111 @@
+/**
+ * Unordered sets of numbers, e.g. all roots of a polynomial.
+ */
+import { parseRational, rationalEquals, rationalToLatex, reduceRational, type Rational } from "./rational";
+
+export interface SetElement {
+    value: number;
+    exact: Rational | null; // Set when written as an integer or fraction (decimals compare numerically)
+}
+
+export interface SetGrading {
+    tolerance: number;
+    duplicates: "ignore" | "strict";
+}
+
+const MAX_ELEMENTS = 50;
+
+/** Parse one element: "2", "-0.5", "3/4", "\frac{3}{4}", or "x = 2". */
+export function parseSetElement(input: string | number): SetElement | null {
+    const s = String(input).trim().replace(/^[a-zA-Z]\w*\s*=\s*/, "");
+    const parsed = parseRational(s);
+    if (parsed) {
+        const exact = { num: parsed.num, den: parsed.den };
+        return { value: exact.num / exact.den, exact: parsed.form === "decimal" ? null : exact };
+    }
+
+    const value = Number(s);
+    return s !== "" && Number.isFinite(value) ? { value, exact: null } : null;
+}
+
+/**
+ * Parse learner input like "{2, 3}", "2, 3", "2; 3", "x = 2 or x = 3"
+ * or "\left\{2, 3\right\}". Returns null if any element is unparseable.
+ */
+export function parseNumberSet(input: string): SetElement[] | null {
+    const body = input
+        .trim()
+        .replace(/^\$+|\$+$/g, "")
+        .replace(/\\left|\\right/g, "")
+        .replace(/^\\?\{|\\?\}$/g, "")
+        .trim();
+    if (!body) return null;
+
+    const parts = body.split(/\s*(?:,|;|\band\b|\bor\b)\s*/);
+    if (parts.length > MAX_ELEMENTS) return null;
+
+    const elements: SetElement[] = [];
+    for (const part of parts) {
+        const el = parseSetElement(part);
+        if (!el) return null;
+        elements.push(el);
+    }
+    return elements;
+}
+
+export function elementsMatch(a: SetElement, b: SetElement, tolerance: number): boolean {
+    if (a.exact && b.exact && rationalEquals(a.exact, b.exact)) return true;
+    return Math.abs(a.value - b.value) <= tolerance;
+}
+
+function dedupe(elements: SetElement[], tolerance: number): SetElement[] {
+    const out: SetElement[] = [];
+    for (const el of elements) {
+        if (!out.some((o) => elementsMatch(o, el, tolerance))) out.push(el);
+    }
+    return out;
+}
+
+/**
+ * Order-insensitive comparison with per-element tolerance.
+ * Uses bipartite matching so overlapping tolerances can't cause false negatives.
+ */
+export function numberSetsMatch(
+    expected: SetElement[],
+    actual: SetElement[],
+    { tolerance, duplicates }: SetGrading
+): boolean {
+    const want = duplicates === "ignore" ? dedupe(expected, tolerance) : expected;
+    const got = duplicates === "ignore" ? dedupe(actual, tolerance) : actual;
+    if (want.length !== got.length) return false;
+
+    // matchOf[j] = index in `want` currently matched to got[j]
+    const matchOf: number[] = new Array(got.length).fill(-1);
+
+    const tryAssign = (i: number, visited: boolean[]): boolean => {
+        for (let j = 0; j < got.length; j++) {
+            if (visited[j] || !elementsMatch(want[i], got[j], tolerance)) continue;
+            visited[j] = true;
+            if (matchOf[j] === -1 || tryAssign(matchOf[j], visited)) {
+                matchOf[j] = i;
+                return true;
+            }
+        }
+        return false;
+    };
+
+    for (let i = 0; i < want.length; i++) {
+        if (!tryAssign(i, new Array(got.length).fill(false))) return false;
+    }
+    return true;
+}
+
+export function elementToLatex(el: SetElement): string {
+    return el.exact ? rationalToLatex(reduceRational(el.exact)) : String(el.value);
+}
+
+/** Render set elements as LaTeX, e.g. "\{-\frac{1}{2}, 3\}", sorted ascending. */
+export function numberSetToLatex(elements: SetElement[]): string {
+    const items = [...elements].sort((a, b) => a.value - b.value).map(elementToLatex);
+    return `\\{${items.join(", ")}\\}`;
+}
@@ -0,0 +1,97 @@
+/**
+ * Grading rules for plain numeric answers.
+ */
+import { evaluate, parseExpression } from "./math-expr";
+
+export interface NumberGrading {
+    value: number;
+    tolerance: number; // Absolute
+    rel_tolerance?: number; // Fraction of |value|, e.g. 0.01 = 1%
+    sig_figs?: number;
+}
+
+/** Round to `digits` significant figures (6.0221e23 -> 6.02e23 for 3). */
+export function roundToSigFigs(x: number, digits: number): number {
+    return x === 0 ? 0 : Number(x.toPrecision(digits));
+}
+
+/**
+ * - sig_figs: both values must agree once rounded to that many significant figures
+ * - otherwise: within the absolute tolerance OR the relative tolerance, whichever is looser
+ */
+export function numberMatches(expected: NumberGrading, actual: number): boolean {
+    if (!Number.isFinite(actual)) return false;
+
+    if (expected.sig_figs !== undefined) {
+        return roundToSigFigs(actual, expected.sig_figs) === roundToSigFigs(expected.value, expected.sig_figs);
+    }
+
+    const relative = (expected.rel_tolerance ?? 0) * Math.abs(expected.value);
+    return Math.abs(actual - expected.value) <= Math.max(expected.tolerance, relative);
+}
+
+/**
+ * Flag tolerances that are implausible for the answer's magnitude,
+ * e.g. a tolerance of 1 on 0.00031 or 0.001 on 6.02e23.
+ */
+export function toleranceWarning(expected: NumberGrading): string | null {
+    const magnitude = Math.abs(expected.value);
+    const { tolerance, rel_tolerance } = expected;
+
+    if (tolerance > 0 && magnitude > 0 && tolerance >= magnitude * 0.1) {
+        return `tolerance ${tolerance} is at least 10% of the value ${expected.value}; consider rel_tolerance or sig_figs`;
+    }
+    if (tolerance > 0 && tolerance < magnitude * 1e-12) {
+        return `tolerance ${tolerance} is below floating-point precision for ${expected.value}; consider rel_tolerance or sig_figs`;
+    }
+    if (rel_tolerance !== undefined && rel_tolerance >= 0.1) {
+        return `rel_tolerance ${rel_tolerance} accepts answers off by 10% or more`;
+    }
+    if (rel_tolerance !== undefined && magnitude === 0) {
+        return "rel_tolerance has no effect when the value is 0; use tolerance";
+    }
+    if (expected.sig_figs !== undefined && (tolerance > 0 || rel_tolerance !== undefined)) {
+        return "sig_figs overrides tolerance and rel_tolerance; remove one";
+    }
+    return null;
+}
+
+/** Learner input as a number, with any trailing "%" split off rather than applied. */
+function readNumericInput(input: string | number): { value: number; percent: boolean } | null {
+    if (typeof input === "number") return Number.isFinite(input) ? { value: input, percent: false } : null;
+
+    let s = input.trim().replace(/^\$+|\$+$/g, "").replace(/\\[,;! ]/g, "").trim();
+    if (!s) return null;
+
+    // Plain numbers, including scientific notation the parser would read as e
+    if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(s)) return { value: Number(s), percent: false };
+
+    // "1,000" / "1,234,567" are thousands separators; any other lone comma is a decimal comma
+    if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(s)) {
+        s = s.replace(/,/g, "");
+    } else if (/^[^,]*\d,\d+[^,]*$/.test(s)) {
+        s = s.replace(/(\d),(\d)/, "$1.$2");
+    }
+    if (s.includes(",")) return null;
+
+    const percent = /^(.*?)\s*(?:\\?%|\\percent)$/.exec(s);
+    if (percent) s = percent[1];
+
+    const node = parseExpression(s);
+    if (!node) return null;
+    const value = evaluate(node);
+    return Number.isFinite(value) ? { value, percent: percent !== null } : null;
+}
+
+/**
+ * Turn learner input like "1/2", "3π/4", "\\frac{1}{2}", "2^10", "50%",
+ * "1,000" or "3,5" into the values it may be graded as. Goes through the
+ * math-expr parser, never eval. "25%" is both 0.25 and 25, since
+ * "what percent ..." answers are stored as the percentage itself.
+ * Returns [] when the input isn't a closed-form number.
+ */
+export function numericInputValues(input: string | number): number[] {
+    const parsed = readNumericInput(input);
+    if (!parsed) return [];
+    return parsed.percent ? [parsed.value * 0.01, parsed.value] : [parsed.value];
+}
@@ -0,0 +1,29 @@
+import type { Answer, Problem } from "@/data/schema/problem.schema";
+
+/** A gradable unit of a problem: the whole problem, or one of its parts. */
+export interface ProblemPart {
+    label: string | null; // null for single-answer problems
+    prompt: string | null;
+    answer: Answer;
+    seed: string; // Seeds per-session choice shuffling; the problem id for single-answer problems
+}
+
+/** Letter labels by position: a, b, c, ... */
+export function defaultPartLabel(index: number): string {
+    return String.fromCharCode(97 + index);
+}
+
+/**
+ * Normalize single-answer and multi-part problems into a list of parts,
+ * so grading and answer formats can treat both the same way.
+ */
+export function problemParts(problem: Pick<Problem, "id" | "answer" | "parts">): ProblemPart[] {
+    if (problem.parts) {
+        return problem.parts.map((part, i) => {
+            const label = part.label ?? defaultPartLabel(i);
+            return { label, prompt: part.prompt, answer: part.answer, seed: `${problem.id}:${label}` };
+        });
+    }
+    // The schema guarantees exactly one of answer / parts
+    return [{ label: null, prompt: null, answer: problem.answer!, seed: problem.id }];
+}
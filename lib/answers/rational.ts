@@ -0,0 +1,108 @@
+/**
+ * Exact rational arithmetic for fraction answers.
+ */
+
+export interface Rational {
+    num: number;
+    den: number; // Always > 0
+}
+
+/**
+ * A parsed learner answer. `form` records how it was written so graders
+ * can enforce "lowest terms" on fractions without penalising integers.
+ */
+export interface ParsedRational extends Rational {
+    form: "integer" | "decimal" | "fraction";
+}
+
+export function gcd(a: number, b: number): number {
+    a = Math.abs(a);
+    b = Math.abs(b);
+    while (b) {
+        [a, b] = [b, a % b];
+    }
+    return a;
+}
+
+/**
+ * Build a rational with a positive denominator.
+ * Returns null for a zero denominator or values outside the safe integer range.
+ */
+export function makeRational(num: number, den: number): Rational | null {
+    if (den === 0) return null;
+    if (!Number.isSafeInteger(num) || !Number.isSafeInteger(den)) return null;
+    return den < 0 ? { num: -num, den: -den } : { num, den };
+}
+
+export function reduceRational({ num, den }: Rational): Rational {
+    const g = gcd(num, den) || 1;
+    return { num: num / g, den: den / g };
+}
+
+export function isLowestTerms({ num, den }: Rational): boolean {
+    return gcd(num, den) === 1;
+}
+
+export function rationalEquals(a: Rational, b: Rational): boolean {
+    const ra = reduceRational(a);
+    const rb = reduceRational(b);
+    return ra.num === rb.num && ra.den === rb.den;
+}
+
+const INT_RE = /^[+-]?\d+$/;
+const DECIMAL_RE = /^([+-]?)(\d*)\.(\d+)$/;
+const SLASH_RE = /^([+-]?\d+)\/([+-]?\d+)$/;
+const LATEX_FRAC_RE = /^([+-]?)\\[dt]?frac\{([+-]?\d+)\}\{([+-]?\d+)\}$/;
+
+/**
+ * Parse learner input into an exact rational.
+ * Accepts: "3/4", "-6/8", "0.75", ".5", "2", "\frac{3}{4}", "-\dfrac{3}{4}".
+ * Returns null for anything else (never throws).
+ */
+export function parseRational(input: string | number): ParsedRational | null {
+    if (typeof input === "number") {
+        return Number.isFinite(input) ? parseRational(String(input)) : null;
+    }
+
+    const s = input
+        .trim()
+        .replace(/^\$+|\$+$/g, "")
+        .replace(/−/g, "-") // Unicode minus
+        .replace(/\s+/g, "");
+    if (!s) return null;
+
+    if (INT_RE.test(s)) {
+        const r = makeRational(Number(s), 1);
+        return r && { ...r, form: "integer" };
+    }
+
+    const dec = DECIMAL_RE.exec(s);
+    if (dec) {
+        const [, sign, whole, frac] = dec;
+        const num = Number(`${sign}${whole || "0"}${frac}`);
+        const r = makeRational(num, Math.pow(10, frac.length));
+        return r && { ...r, form: "decimal" };
+    }
+
+    const slash = SLASH_RE.exec(s);
+    if (slash) {
+        const r = makeRational(Number(slash[1]), Number(slash[2]));
+        return r && { ...r, form: "fraction" };
+    }
+
+    const frac = LATEX_FRAC_RE.exec(s);
+    if (frac) {
+        const [, sign, n, d] = frac;
+        const r = makeRational(Number(n) * (sign === "-" ? -1 : 1), Number(d));
+        return r && { ...r, form: "fraction" };
+    }
+
+    return null;
+}
+
+/** Render a rational as LaTeX, e.g. "-\frac{3}{4}" or "2". */
+export function rationalToLatex({ num, den }: Rational): string {
+    if (den === 1) return String(num);
+    const sign = num < 0 ? "-" : "";
+    return `${sign}\\frac{${Math.abs(num)}}{${den}}`;
+}
@@ -0,0 +1,70 @@
+/**
+ * Ordered tuples, e.g. coordinates "(2, -3)" or solutions to a system.
+ */
+import { elementToLatex, elementsMatch, parseSetElement, type SetElement } from "./number-set";
+
+const MAX_COMPONENTS = 10;
+
+const DELIMITERS: [open: string, close: string][] = [
+    ["(", ")"],
+    ["[", "]"],
+    ["\\langle", "\\rangle"],
+    ["⟨", "⟩"],
+];
+
+/** Remove a matching pair of outer delimiters; null if only one side has one or they don't match. */
+function stripDelimiters(s: string): string | null {
+    for (const [open, close] of DELIMITERS) {
+        const opens = s.startsWith(open);
+        const closes = s.endsWith(close);
+        if (opens && closes) return s.slice(open.length, -close.length);
+        if (opens || closes) return null;
+    }
+    return s;
+}
+
+/**
+ * Parse "(2, -3)", "[2, -3]", "\left(2, -3\right)", "\langle 1, 2 \rangle"
+ * or bare "2, -3". Components may be fractions or "x = 2".
+ */
+export function parseTuple(input: string): SetElement[] | null {
+    const body = stripDelimiters(
+        input
+            .trim()
+            .replace(/^\$+|\$+$/g, "")
+            .replace(/\\left|\\right/g, "")
+            .trim()
+    )?.trim();
+    if (!body) return null;
+
+    const parts = body.split(/\s*[,;]\s*/);
+    if (parts.length > MAX_COMPONENTS) return null;
+
+    const components: SetElement[] = [];
+    for (const part of parts) {
+        const el = parseSetElement(part);
+        if (!el) return null;
+        components.push(el);
+    }
+    return components;
+}
+
+/**
+ * Component-wise comparison. `tolerance` is either shared by all
+ * components or given per component.
+ */
+export function tuplesMatch(
+    expected: SetElement[],
+    actual: SetElement[],
+    tolerance: number | number[]
+): boolean {
+    if (expected.length !== actual.length) return false;
+    return expected.every((want, i) =>
+        elementsMatch(want, actual[i], Array.isArray(tolerance) ? tolerance[i] : tolerance)
+    );
+}
+
+/** Render as LaTeX, e.g. "\left(2, -\frac{1}{2}\right)". */
+export function tupleToLatex(components: SetElement[]): string {
+    return `\\left(${components.map(elementToLatex).join(", ")}\\right)`;
+}
@@ -0,0 +1,264 @@
+/**
+ * Physical quantities with units ("5 km", "90 min", "60 km/h").
+ * Values are converted to SI before comparison, so any dimensionally
+ * compatible unit is accepted.
+ */
+import { evaluate, parseExpression } from "./math-expr";
+
+/** Exponents of the SI base dimensions. */
+interface Dimension {
+    L: number; // length
+    M: number; // mass
+    T: number; // time
+    K: number; // temperature
+}
+
+export interface Unit {
+    factor: number; // Multiply by this to get SI
+    offset: number; // Added before scaling (only for °C / °F)
+    dim: Dimension;
+}
+
+const dim = (L = 0, M = 0, T = 0, K = 0): Dimension => ({ L, M, T, K });
+
+const LENGTH = dim(1);
+const MASS = dim(0, 1);
+const TIME = dim(0, 0, 1);
+const TEMPERATURE = dim(0, 0, 0, 1);
+
+const BASE_UNITS: Record<string, { factor: number; dim: Dimension; offset?: number }> = {
+    // Length
+    m: { factor: 1, dim: LENGTH },
+    km: { factor: 1000, dim: LENGTH },
+    cm: { factor: 0.01, dim: LENGTH },
+    mm: { factor: 0.001, dim: LENGTH },
+    in: { factor: 0.0254, dim: LENGTH },
+    ft: { factor: 0.3048, dim: LENGTH },
+    yd: { factor: 0.9144, dim: LENGTH },
+    mi: { factor: 1609.344, dim: LENGTH },
+    // Mass
+    kg: { factor: 1, dim: MASS },
+    g: { factor: 0.001, dim: MASS },
+    mg: { factor: 1e-6, dim: MASS },
+    t: { factor: 1000, dim: MASS },
+    lb: { factor: 0.45359237, dim: MASS },
+    oz: { factor: 0.028349523125, dim: MASS },
+    // Time
+    s: { factor: 1, dim: TIME },
+    ms: { factor: 0.001, dim: TIME },
+    min: { factor: 60, dim: TIME },
+    h: { factor: 3600, dim: TIME },
+    d: { factor: 86400, dim: TIME },
+    wk: { factor: 604800, dim: TIME },
+    // Temperature (absolute values; offsets apply to bare units only)
+    K: { factor: 1, dim: TEMPERATURE },
+    "°C": { factor: 1, offset: 273.15, dim: TEMPERATURE },
+    "°F": { factor: 5 / 9, offset: 459.67, dim: TEMPERATURE },
+    // Volume
+    L: { factor: 0.001, dim: dim(3) },
+    mL: { factor: 1e-6, dim: dim(3) },
+    // Derived
+    mph: { factor: 0.44704, dim: dim(1, 0, -1) },
+    N: { factor: 1, dim: dim(1, 1, -2) },
+    J: { factor: 1, dim: dim(2, 1, -2) },
+    W: { factor: 1, dim: dim(2, 1, -3) },
+    Pa: { factor: 1, dim: dim(-1, 1, -2) },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+    meter: "m", meters: "m", metre: "m", metres: "m",
+    kilometer: "km", kilometers: "km", kilometre: "km", kilometres: "km",
+    centimeter: "cm", centimeters: "cm", millimeter: "mm", millimeters: "mm",
+    inch: "in", inches: "in", foot: "ft", feet: "ft", yard: "yd", yards: "yd",
+    mile: "mi", miles: "mi",
+    kilogram: "kg", kilograms: "kg", gram: "g", grams: "g", milligram: "mg", milligrams: "mg",
+    tonne: "t", tonnes: "t", pound: "lb", pounds: "lb", lbs: "lb", ounce: "oz", ounces: "oz",
+    sec: "s", secs: "s", second: "s", seconds: "s",
+    millisecond: "ms", milliseconds: "ms",
+    mins: "min", minute: "min", minutes: "min",
+    hr: "h", hrs: "h", hour: "h", hours: "h",
+    day: "d", days: "d", week: "wk", weeks: "wk",
+    kelvin: "K", "℃": "°C", degC: "°C", "℉": "°F", degF: "°F",
+    l: "L", liter: "L", liters: "L", litre: "L", litres: "L",
+    ml: "mL", milliliter: "mL", milliliters: "mL",
+    kph: "km/h", kmh: "km/h",
+};
+
+const DIMENSION_NAMES: [Dimension, string][] = [
+    [LENGTH, "length"],
+    [MASS, "mass"],
+    [TIME, "time"],
+    [TEMPERATURE, "temperature"],
+    [dim(2), "area"],
+    [dim(3), "volume"],
+    [dim(1, 0, -1), "speed"],
+    [dim(1, 0, -2), "acceleration"],
+    [dim(1, 1, -2), "force"],
+    [dim(2, 1, -2), "energy"],
+    [dim(2, 1, -3), "power"],
+    [dim(-1, 1, -2), "pressure"],
+];
+
+function sameDimension(a: Dimension, b: Dimension): boolean {
+    return a.L === b.L && a.M === b.M && a.T === b.T && a.K === b.K;
+}
+
+export function dimensionName(d: Dimension): string | null {
+    return DIMENSION_NAMES.find(([candidate]) => sameDimension(candidate, d))?.[1] ?? null;
+}
+
+// Lowercased unit symbols and aliases -> canonical unit, for "KM", "Kg" or "Hours"
+const FOLDED_UNITS = new Map<string, string>([
+    ...Object.keys(BASE_UNITS).map((name): [string, string] => [name.toLowerCase(), name]),
+    ...Object.entries(UNIT_ALIASES).map(([alias, name]): [string, string] => [alias.toLowerCase(), name]),
+]);
+
+/**
+ * Whether a unit may be matched ignoring case. Not for single letters
+ * (m vs M, s vs S) or a leading mega/giga prefix (Mg is not mg).
+ */
+function foldsCase(name: string): boolean {
+    return name.length > 1 && !/^[MG][a-z]$/.test(name);
+}
+
+function lookupFactor(name: string): Unit | null {
+    const canonical = BASE_UNITS[name]
+        ? name
+        : UNIT_ALIASES[name] ?? (foldsCase(name) ? FOLDED_UNITS.get(name.toLowerCase()) : undefined);
+    if (!canonical) return null;
+    if (canonical.includes("/")) return parseUnit(canonical);
+    const base = BASE_UNITS[canonical];
+    return { factor: base.factor, offset: base.offset ?? 0, dim: base.dim };
+}
+
+/**
+ * Parse a unit expression like "km", "m/s^2", "kg*m/s^2", "cm³".
+ * Returns null for unknown units.
+ */
+export function parseUnit(input: string): Unit | null {
+    const s = input
+        .trim()
+        .replace(/²/g, "^2")
+        .replace(/³/g, "^3")
+        .replace(/°\s+/g, "°")
+        .replace(/[·⋅]/g, "*")
+        .replace(/\s*\/\s*/g, "/")
+        .replace(/\s*\*\s*|\s+/g, "*");
+    if (!s) return null;
+
+    // Split into factors, each tagged with the operator before it
+    const factors = s.match(/[*/]?[^*/]+/g) ?? [];
+    let unit: Unit = { factor: 1, offset: 0, dim: dim() };
+
+    for (const raw of factors) {
+        const divide = raw.startsWith("/");
+        const m = /^[*/]?([^\^]+)(?:\^\{?(-?\d+)\}?)?$/.exec(raw);
+        if (!m) return null;
+
+        const base = lookupFactor(m[1]);
+        if (!base) return null;
+
+        const power = Number(m[2] ?? 1) * (divide ? -1 : 1);
+        unit = {
+            factor: unit.factor * Math.pow(base.factor, power),
+            // Offsets only make sense for a bare temperature unit
+            offset: factors.length === 1 && power === 1 ? base.offset : 0,
+            dim: {
+                L: unit.dim.L + base.dim.L * power,
+                M: unit.dim.M + base.dim.M * power,
+                T: unit.dim.T + base.dim.T * power,
+                K: unit.dim.K + base.dim.K * power,
+            },
+        };
+    }
+    return unit;
+}
+
+export interface ParsedQuantity {
+    value: number;
+    unitText: string;
+}
+
+/**
+ * Split "5 km", "1.5hours", "\frac{1}{2}\,\text{h}" into a value and unit text.
+ * The unit text is empty when the learner gave a bare number.
+ */
+export function parseQuantity(input: string | number): ParsedQuantity | null {
+    if (typeof input === "number") {
+        return Number.isFinite(input) ? { value: input, unitText: "" } : null;
+    }
+
+    const s = input
+        .trim()
+        .replace(/^\$+|\$+$/g, "")
+        .replace(/\\(?:text|mathrm)\{([^}]*)\}/g, " $1")
+        .replace(/\\[,;! ]|~/g, " ")
+        .replace(/\^\\circ|\\degree/g, "°");
+
+    // Numeric part may be LaTeX; the unit starts at the first letter or degree sign
+    const scientific = /^([-+]?\d*\.?\d+e[+-]?\d+)(.*)$/i.exec(s);
+    if (scientific) {
+        return { value: Number(scientific[1]), unitText: scientific[2].trim() };
+    }
+
+    const m = /^([^a-zA-Z°℃℉\\]*(?:\\[a-zA-Z]+[^a-zA-Z°℃℉\\]*)*)(.*)$/.exec(s);
+    if (!m) return null;
+
+    const node = parseExpression(m[1]);
+    if (!node) return null;
+    const value = evaluate(node);
+    if (!Number.isFinite(value)) return null;
+
+    return { value, unitText: m[2].trim() };
+}
+
+function toSI(value: number, unit: Unit): number {
+    return (value + unit.offset) * unit.factor;
+}
+
+function fromSI(si: number, unit: Unit): number {
+    return si / unit.factor - unit.offset;
+}
+
+export interface QuantityGrade {
+    correct: boolean;
+    feedback?: string;
+}
+
+/**
+ * Grade a quantity answer. The learner's value is converted into the
+ * expected unit, then compared within `tolerance` (in that unit).
+ */
+export function gradeQuantity(
+    expected: { value: number; unit: string; tolerance: number },
+    input: string | number
+): QuantityGrade {
+    const expectedUnit = parseUnit(expected.unit);
+    const parsed = parseQuantity(input);
+    if (!expectedUnit || !parsed) return { correct: false };
+
+    // "a unit of area", never "a area"
+    const kind = dimensionName(expectedUnit.dim);
+    const wanted = kind ? `a unit of ${kind} (e.g. ${expected.unit})` : `a unit like ${expected.unit}`;
+
+    if (!parsed.unitText) {
+        return { correct: false, feedback: `Include ${wanted} with your answer.` };
+    }
+
+    const unit = parseUnit(parsed.unitText);
+    if (!unit) {
+        return { correct: false, feedback: `Unrecognized unit "${parsed.unitText}".` };
+    }
+
+    if (!sameDimension(unit.dim, expectedUnit.dim)) {
+        const given = dimensionName(unit.dim);
+        return {
+            correct: false,
+            feedback: `Expected ${wanted}, but ${parsed.unitText} measures ${given ?? "something else"}.`,
+        };
+    }
+
+    const converted = fromSI(toSI(parsed.value, unit), expectedUnit);
+    const slack = 1e-9 * Math.max(1, Math.abs(expected.value));
+    return { correct: Math.abs(converted - expected.value) <= Math.max(expected.tolerance, slack) };
+}
@@ -0,0 +1,168 @@
+/**
+ * Read and validate the problem corpus from data/problems and data/templates.
+ * Only scripts/build-corpus.ts reads the files; routes import the compiled
+ * module it emits (see lib/problem-corpus.ts), so nothing touches fs at runtime.
+ */
+import fs from "node:fs";
+import path from "node:path";
+import { globSync } from "glob";
+import { z } from "zod";
+import { ProblemTemplateSchema, type Problem } from "@/data/schema/problem.schema";
+import { parseProblem } from "@/data/schema/versions";
+import { checkSvg } from "./figures";
+import { expandTemplate, TemplateError } from "./templates";
+
+/** Why a file (or one problem in it) was left out of the corpus. */
+export interface LoadDiagnostic {
+    // Relative to data/, e.g. "problems/algebra/aom_algebra_0001.json"
+    file: string;
+    kind: "invalid_json" | "schema" | "duplicate_id" | "template" | "figure";
+    message: string;
+    // Zod issues, for schema errors
+    issues?: z.core.$ZodIssue[];
+    // For duplicate ids: the id, and the file whose problem was kept
+    id?: string;
+    duplicate_of?: string;
+}
+
+/** Shape of data/generated/corpus.js */
+export interface CompiledCorpus {
+    // Content hash of `problems` and `figures`, to tell which corpus a deployment is serving
+    hash: string;
+    problems: Problem[];
+    // Indexes into `problems`
+    byId: Record<string, number>;
+    byTopic: Record<string, number[]>;
+    // "<problem id>/<file>" -> SVG source, for every figure that passed checkSvg
+    figures: Record<string, string>;
+    // Template variant id -> template id
+    variantTemplates: Record<string, string>;
+    // Files skipped while building; empty for a healthy corpus
+    diagnostics: LoadDiagnostic[];
+}
+
+export interface CorpusSource {
+    problems: Problem[];
+    // Problem id -> source file, relative to data/ (variants point at their template)
+    files: Record<string, string>;
+    figures: Record<string, string>;
+    variantTemplates: Record<string, string>;
+    diagnostics: LoadDiagnostic[];
+}
+
+/**
+ * Describe a failed read without the error's own message, which carries the
+ * absolute path (diagnostics are served by /api/admin/corpus-health).
+ */
+function readError(e: unknown): string {
+    return `Cannot read file (${(e as NodeJS.ErrnoException).code ?? "unknown error"})`;
+}
+
+/** Parse a JSON file, or record why it can't be read or parsed. */
+function readJson(dataDir: string, file: string, diagnostics: LoadDiagnostic[]): unknown {
+    let text: string;
+    try {
+        text = fs.readFileSync(path.join(dataDir, file), "utf8");
+    } catch (e) {
+        diagnostics.push({ file, kind: "invalid_json", message: readError(e) });
+        return undefined;
+    }
+    try {
+        return JSON.parse(text);
+    } catch (e) {
+        // SyntaxError messages name only the position
+        diagnostics.push({ file, kind: "invalid_json", message: (e as Error).message });
+        return undefined;
+    }
+}
+
+function schemaDiagnostic(file: string, error: z.ZodError): LoadDiagnostic {
+    return { file, kind: "schema", message: z.prettifyError(error), issues: error.issues };
+}
+
+/** Read a problem's SVG figures, which sit next to its JSON file. */
+function readFigures(dataDir: string, file: string, problem: Problem, source: CorpusSource): void {
+    for (const figure of problem.figures ?? []) {
+        const figureFile = path.join(path.dirname(file), figure.file);
+        let svg: string;
+        try {
+            svg = fs.readFileSync(path.join(dataDir, figureFile), "utf8");
+        } catch (e) {
+            source.diagnostics.push({ file: figureFile, kind: "figure", message: readError(e), id: problem.id });
+            continue;
+        }
+
+        const reason = checkSvg(svg);
+        if (reason) {
+            source.diagnostics.push({ file: figureFile, kind: "figure", message: reason, id: problem.id });
+            continue;
+        }
+        source.figures[`${problem.id}/${figure.file}`] = svg;
+    }
+}
+
+/**
+ * Every problem and template variant, in a stable order. Files that fail to
+ * load are skipped and described in `diagnostics` rather than thrown.
+ */
+export function readCorpus(dataDir = path.join(process.cwd(), "data")): CorpusSource {
+    const source: CorpusSource = { problems: [], files: {}, figures: {}, variantTemplates: {}, diagnostics: [] };
+
+    const add = (problem: Problem, file: string): boolean => {
+        const existing = source.files[problem.id];
+        if (existing) {
+            source.diagnostics.push({
+                file,
+                kind: "duplicate_id",
+                message: `Duplicate id "${problem.id}" (kept the one in ${existing})`,
+                id: problem.id,
+                duplicate_of: existing,
+            });
+            return false;
+        }
+        source.problems.push(problem);
+        source.files[problem.id] = file;
+        return true;
+    };
+
+    for (const relPath of globSync("**/*.json", { cwd: path.join(dataDir, "problems") }).sort()) {
+        const file = `problems/${relPath}`;
+        const obj = readJson(dataDir, file, source.diagnostics);
+        if (obj === undefined) continue;
+
+        // Older schema versions are upgraded to the current one
+        const parsed = parseProblem(obj);
+        if (!parsed.success) {
+            source.diagnostics.push(schemaDiagnostic(file, parsed.error));
+            continue;
+        }
+        if (add(parsed.data, file)) readFigures(dataDir, file, parsed.data, source);
+    }
+
+    for (const relPath of globSync("**/*.json", { cwd: path.join(dataDir, "templates") }).sort()) {
+        const file = `templates/${relPath}`;
+        const obj = readJson(dataDir, file, source.diagnostics);
+        if (obj === undefined) continue;
+
+        const template = ProblemTemplateSchema.safeParse(obj);
+        if (!template.success) {
+            source.diagnostics.push(schemaDiagnostic(file, template.error));
+            continue;
+        }
+
+        let variants: Problem[];
+        try {
+            variants = expandTemplate(template.data);
+        } catch (e) {
+            // TemplateError messages quote only the template's own text
+            const message = e instanceof TemplateError ? e.message : "Template expansion failed";
+            source.diagnostics.push({ file, kind: "template", message });
+            continue;
+        }
+        for (const variant of variants) {
+            if (add(variant, file)) source.variantTemplates[variant.id] = template.data.id;
+        }
+    }
+
+    return source;
+}
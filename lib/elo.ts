@@ -21,6 +21,23 @@ export function kFactor(nVotes: number): number {
     return 8;
 }
 
+// Share of a correct answer's credit lost by revealing every hint, at even odds
+const HINT_PENALTY = 0.5;
+
+/**
+ * Fraction of credit kept for a correct answer that used hints.
+ * Hints cost more on problems the user was expected to solve anyway,
+ * and less on problems rated well above them.
+ * @param hintsUsed - Hints revealed before answering
+ * @param totalHints - Hints the problem has
+ */
+export function hintCredit(hintsUsed: number, totalHints: number, userRating: number, problemRating: number): number {
+    if (hintsUsed <= 0 || totalHints <= 0) return 1;
+    const share = Math.min(hintsUsed, totalHints) / totalHints;
+    const weight = 0.5 + expectedScore(userRating, problemRating); // 0.5 - 1.5
+    return Math.max(0.1, 1 - HINT_PENALTY * share * weight);
+}
+
 /**
  * Update Elo ratings after a match.
  * @param rA - Current rating of player A
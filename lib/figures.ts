@@ -0,0 +1,54 @@
+/**
+ * SVG figures stored next to a problem's JSON file.
+ * No "server-only" so validate-dataset can share the same checks.
+ */
+
+export const MAX_FIGURE_BYTES = 100 * 1024;
+
+// Figure files are named after their problem: aom_geometry_0001_triangle.svg
+export const FIGURE_FILE_PATTERN = /^aom_[a-z0-9_]+(-[a-z0-9]+)*\.svg$/;
+
+const FORBIDDEN: [RegExp, string][] = [
+    [/<script\b/i, "contains a <script> element"],
+    [/<(foreignObject|iframe|embed|object)\b/i, "embeds foreign content"],
+    [/\son[a-z]+\s*=/i, "contains an event handler attribute"],
+    [/javascript:/i, "contains a javascript: URL"],
+    [/<!(DOCTYPE|ENTITY)\b/i, "declares a DOCTYPE or entities"],
+    [/@import\b/i, "imports external styles"],
+];
+
+/** "aom_geometry_0001.svg" or "aom_geometry_0001_triangle.svg" belong to aom_geometry_0001. */
+export function figureBelongsTo(problemId: string, file: string): boolean {
+    return file === `${problemId}.svg` || file.startsWith(`${problemId}_`) || file.startsWith(`${problemId}-`);
+}
+
+/** URL the figure is served from (see app/api/figures). */
+export function figureUrl(problemId: string, file: string): string {
+    return `/api/figures/${problemId}/${file}`;
+}
+
+/**
+ * Check an SVG file for anything that could run code or load external
+ * resources. Returns a reason it was rejected, or null if it is safe.
+ */
+export function checkSvg(content: string): string | null {
+    if (new TextEncoder().encode(content).length > MAX_FIGURE_BYTES) {
+        return `is larger than ${MAX_FIGURE_BYTES / 1024} KB`;
+    }
+    if (!/^\s*(<\?xml[^>]*\?>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/.test(content)) {
+        return "does not start with an <svg> element";
+    }
+
+    for (const [pattern, reason] of FORBIDDEN) {
+        if (pattern.test(content)) return reason;
+    }
+
+    // Only same-document references: href="#id" and url(#id)
+    for (const m of content.matchAll(/\b(?:xlink:)?href\s*=\s*["']([^"']*)["']/gi)) {
+        if (!m[1].startsWith("#")) return `references an external resource (${m[1]})`;
+    }
+    for (const m of content.matchAll(/url\(\s*["']?([^"')]*)/gi)) {
+        if (!m[1].startsWith("#")) return `references an external resource (${m[1]})`;
+    }
+    return null;
+}
@@ -0,0 +1,114 @@
+/**
+ * Locale selection and translated problem text.
+ */
+import type { Problem } from "@/data/schema/problem.schema";
+import { extractMath } from "./markdown";
+
+export const DEFAULT_LOCALE = "en";
+
+export interface LocalizedText {
+    locale: string;
+    prompt: string;
+    prompt_latex?: string;
+    solution?: string;
+}
+
+/**
+ * Parse an Accept-Language header into locales, most preferred first.
+ * "pt-BR,pt;q=0.9,en;q=0.5" -> ["pt-BR", "pt", "en"]
+ */
+export function parseAcceptLanguage(header: string | null): string[] {
+    if (!header) return [];
+
+    return header
+        .split(",")
+        .map((entry, i) => {
+            const [tag, ...params] = entry.trim().split(";");
+            const q = params.map((p) => /^\s*q=([\d.]+)\s*$/.exec(p)).find(Boolean);
+            return { tag: tag.trim(), q: q ? Number(q[1]) : 1, i };
+        })
+        .filter((e) => e.tag && e.tag !== "*" && e.q > 0)
+        .sort((a, b) => b.q - a.q || a.i - b.i)
+        .map((e) => e.tag);
+}
+
+/** Match a requested tag like "pt-br" or "es-MX" against available locales. */
+function matchLocale(tag: string, available: readonly string[]): string | null {
+    const [language, region] = tag.split("-");
+    const wanted = region ? `${language.toLowerCase()}-${region.toUpperCase()}` : language.toLowerCase();
+
+    if (available.includes(wanted)) return wanted;
+    if (available.includes(language.toLowerCase())) return language.toLowerCase();
+    // "pt" requested, only "pt-BR" translated: still better than English
+    return available.find((l) => l.startsWith(`${language.toLowerCase()}-`)) ?? null;
+}
+
+/**
+ * Pick the locale to serve: an explicit ?lang= wins, then Accept-Language.
+ * English (the original text) is the fallback and ends the search.
+ */
+export function pickLocale(
+    query: string | null,
+    acceptLanguage: string | null,
+    available: readonly string[]
+): string {
+    const requested = query ? [query] : parseAcceptLanguage(acceptLanguage);
+
+    for (const tag of requested) {
+        if (tag.toLowerCase() === DEFAULT_LOCALE || tag.toLowerCase().startsWith(`${DEFAULT_LOCALE}-`)) break;
+        const match = matchLocale(tag, available);
+        if (match) return match;
+    }
+    return DEFAULT_LOCALE;
+}
+
+/** The problem's text in `locale`, falling back to English field by field. */
+export function localizeProblem(problem: Problem, locale: string): LocalizedText {
+    const translation = problem.translations?.[locale];
+    if (!translation) {
+        return {
+            locale: DEFAULT_LOCALE,
+            prompt: problem.prompt,
+            prompt_latex: problem.prompt_latex,
+            solution: problem.solution,
+        };
+    }
+
+    return {
+        locale,
+        prompt: translation.prompt,
+        // A translated prompt makes the English LaTeX version stale
+        prompt_latex: translation.prompt_latex,
+        solution: translation.solution ?? problem.solution,
+    };
+}
+
+/** Math segments, whitespace-insensitive and sorted, since word order may move them. */
+function mathSignature(text: string): string[] {
+    return extractMath(text)
+        .map((segment) => `${segment.display ? "$$" : "$"}${segment.tex.replace(/\s+/g, "")}`)
+        .sort();
+}
+
+/**
+ * Describe how the math in a translation differs from the original, or null
+ * if both contain the same formulas.
+ */
+export function translationMathMismatch(original: string, translated: string): string | null {
+    const expected = mathSignature(original);
+    const actual = mathSignature(translated);
+
+    const missing = [...expected];
+    const extra: string[] = [];
+    for (const tex of actual) {
+        const i = missing.indexOf(tex);
+        if (i >= 0) missing.splice(i, 1);
+        else extra.push(tex);
+    }
+
+    if (missing.length === 0 && extra.length === 0) return null;
+    const parts: string[] = [];
+    if (missing.length > 0) parts.push(`missing ${missing.join(", ")}`);
+    if (extra.length > 0) parts.push(`unexpected ${extra.join(", ")}`);
+    return parts.join("; ");
+}
@@ -0,0 +1,122 @@
+/**
+ * Minimal Markdown for written solutions: paragraphs, "-" and "1." lists,
+ * **bold**, *italic*, `code`, inline $...$ and display $$...$$ math.
+ * Steps are "## " headings. Everything else is escaped, never passed through as HTML.
+ */
+import katex from "katex";
+
+export interface SolutionStep {
+    title: string | null; // null for text before the first heading
+    body: string;
+}
+
+export interface MathSegment {
+    tex: string;
+    display: boolean;
+}
+
+const KATEX_OPTIONS = {
+    trust: false,
+    strict: "warn" as const,
+    maxExpand: 1000,
+    maxSize: 10,
+};
+
+function escapeHtml(s: string): string {
+    return s
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#039;");
+}
+
+/** Split a solution into steps at "## " headings. */
+export function splitSolutionSteps(markdown: string): SolutionStep[] {
+    const steps: SolutionStep[] = [];
+    let current: SolutionStep = { title: null, body: "" };
+
+    for (const line of markdown.split("\n")) {
+        const heading = /^##\s+(.+)$/.exec(line);
+        if (heading) {
+            if (current.title !== null || current.body.trim()) steps.push(current);
+            current = { title: heading[1].trim(), body: "" };
+        } else {
+            current.body += `${line}\n`;
+        }
+    }
+    if (current.title !== null || current.body.trim()) steps.push(current);
+
+    return steps.map((step) => ({ ...step, body: step.body.trim() }));
+}
+
+/** Every math segment, in order, e.g. for validating that it renders. */
+export function extractMath(markdown: string): MathSegment[] {
+    const segments: MathSegment[] = [];
+    const re = /\$\$([\s\S]+?)\$\$|\$([^$\n]+?)\$/g;
+    for (const m of markdown.matchAll(re)) {
+        segments.push(m[1] !== undefined ? { tex: m[1].trim(), display: true } : { tex: m[2].trim(), display: false });
+    }
+    return segments;
+}
+
+/** Render one math segment; throws if KaTeX can't parse it. */
+export function renderMathStrict(segment: MathSegment): string {
+    return katex.renderToString(segment.tex, { ...KATEX_OPTIONS, displayMode: segment.display, throwOnError: true });
+}
+
+function renderMath(segment: MathSegment): string {
+    try {
+        return renderMathStrict(segment);
+    } catch {
+        return escapeHtml(segment.display ? `$$${segment.tex}$$` : `$${segment.tex}$`);
+    }
+}
+
+/** Inline formatting for text that contains no math. */
+function renderInlineText(text: string): string {
+    return escapeHtml(text)
+        .replace(/`([^`]+)`/g, "<code>$1</code>")
+        .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+        .replace(/\*([^*]+)\*/g, "<em>$1</em>");
+}
+
+/** Inline math and formatting within a single block. */
+function renderInline(text: string): string {
+    return text
+        .split(/(\$\$[\s\S]+?\$\$|\$[^$\n]+?\$)/)
+        .map((part, i) => {
+            if (i % 2 === 0) return renderInlineText(part);
+            const [segment] = extractMath(part);
+            return renderMath(segment);
+        })
+        .join("");
+}
+
+/** Render Markdown to HTML. Math that fails to parse is shown as escaped source. */
+export function renderMarkdown(markdown: string): string {
+    const blocks = markdown.trim().split(/\n\s*\n/);
+
+    return blocks
+        .map((block) => {
+            const lines = block.split("\n").map((l) => l.trim());
+
+            // Display math on its own
+            if (/^\$\$[\s\S]+\$\$$/.test(block.trim())) {
+                return `<div class="my-4 overflow-x-auto">${renderMath({ tex: block.trim().slice(2, -2).trim(), display: true })}</div>`;
+            }
+
+            if (lines.every((l) => /^[-*]\s+/.test(l))) {
+                const items = lines.map((l) => `<li>${renderInline(l.replace(/^[-*]\s+/, ""))}</li>`);
+                return `<ul class="list-disc pl-6 my-2">${items.join("")}</ul>`;
+            }
+
+            if (lines.every((l) => /^\d+\.\s+/.test(l))) {
+                const items = lines.map((l) => `<li>${renderInline(l.replace(/^\d+\.\s+/, ""))}</li>`);
+                return `<ol class="list-decimal pl-6 my-2">${items.join("")}</ol>`;
+            }
+
+            return `<p class="my-2">${renderInline(lines.join(" "))}</p>`;
+        })
+        .join("");
+}
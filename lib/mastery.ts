@@ -0,0 +1,77 @@
+/**
+ * Per-skill mastery estimates from a learner's attempt history.
+ */
+import { getSkill, prerequisitesOf } from "./skills";
+
+export interface MasteryAttempt {
+    problem_id: string;
+    outcome: string;
+    score: number | null; // Null for attempts stored before fractional scores
+}
+
+export interface SkillMastery {
+    skill: string;
+    name: string;
+    topic: string;
+    estimate: number; // 0-1
+    attempts: number;
+    mastered: boolean;
+}
+
+// Each older attempt counts this much less than the one after it
+const RECENCY_DECAY = 0.85;
+// Prior: one imaginary right and one wrong answer, so few attempts stay near 0.5
+const PRIOR_CORRECT = 1;
+const PRIOR_TOTAL = 2;
+
+export const MASTERY_THRESHOLD = 0.75;
+export const MIN_MASTERY_ATTEMPTS = 3;
+
+/**
+ * Estimate mastery per skill as a recency-weighted success rate.
+ * Self-assessed attempts are left out.
+ * @param attempts - Newest first
+ * @param skillsOf - Skill ids tagged on a problem
+ */
+export function computeMastery(
+    attempts: MasteryAttempt[],
+    skillsOf: (problemId: string) => string[] | undefined
+): SkillMastery[] {
+    const totals = new Map<string, { weighted: number; weight: number; attempts: number }>();
+
+    for (const attempt of attempts) {
+        // The learner's own rubric score is unverified, so it can't unlock prerequisites
+        if (attempt.outcome === "self_assessed") continue;
+
+        // Give-ups count as 0
+        const score = attempt.score ?? (attempt.outcome === "correct" ? 1 : 0);
+
+        for (const skill of skillsOf(attempt.problem_id) ?? []) {
+            const t = totals.get(skill) ?? { weighted: 0, weight: 0, attempts: 0 };
+            const w = Math.pow(RECENCY_DECAY, t.attempts);
+            totals.set(skill, { weighted: t.weighted + w * score, weight: t.weight + w, attempts: t.attempts + 1 });
+        }
+    }
+
+    const result: SkillMastery[] = [];
+    for (const [skill, t] of totals) {
+        const info = getSkill(skill);
+        if (!info) continue;
+
+        const estimate = (t.weighted + PRIOR_CORRECT) / (t.weight + PRIOR_TOTAL);
+        result.push({
+            skill,
+            name: info.name,
+            topic: info.topic,
+            estimate: Math.round(estimate * 100) / 100,
+            attempts: t.attempts,
+            mastered: t.attempts >= MIN_MASTERY_ATTEMPTS && estimate >= MASTERY_THRESHOLD,
+        });
+    }
+    return result.sort((a, b) => a.topic.localeCompare(b.topic) || a.name.localeCompare(b.name));
+}
+
+/** True when every prerequisite of every skill is in `mastered`. */
+export function prerequisitesMet(skills: string[] | undefined, mastered: ReadonlySet<string>): boolean {
+    return (skills ?? []).every((skill) => prerequisitesOf(skill).every((pre) => mastered.has(pre)));
+}
@@ -1,12 +1,14 @@
 import "server-only";
-import fs from "node:fs";
-import path from "node:path";
-import { globSync } from "glob";
-import { ProblemSchema, type Problem } from "@/data/schema/problem.schema";
+import type { Problem } from "@/data/schema/problem.schema";
+import type { LoadDiagnostic } from "@/lib/corpus-loader";
+// Built by `pnpm corpus:build` (part of dev and build); see scripts/build-corpus.ts
+import corpus from "@/data/generated/corpus";
 
-// Cache problems in memory (reloaded on cold start)
+// Built once per warm instance from the precompiled list
 let problemsMap: Map<string, Problem> | null = null;
-let problemsList: Problem[] | null = null;
+
+/** Content hash of the compiled corpus, to check which one a deployment serves. */
+export const CORPUS_HASH = corpus.hash;
 
 /**
  * Load all problems as a Map (id -> Problem).
@@ -15,49 +17,49 @@ let problemsList: Problem[] | null = null;
 export function loadProblemsMap(): Map<string, Problem> {
     if (problemsMap) return problemsMap;
 
-    const problems = loadProblemsList();
-    const map = new Map<string, Problem>();
-    for (const p of problems) {
-        map.set(p.id, p);
-    }
-
-    problemsMap = map;
-    return map;
+    problemsMap = new Map(Object.entries(corpus.byId).map(([id, i]) => [id, corpus.problems[i]]));
+    return problemsMap;
 }
 
 /**
- * Load all problems as an array.
- * Cached per warm instance.
+ * Load all problems as an array, including the variants of every template.
  */
 export function loadProblemsList(): Problem[] {
-    if (problemsList) return problemsList;
-
-    const problemsDir = path.join(process.cwd(), "data/problems");
-    const files = globSync("**/*.json", { cwd: problemsDir });
-
-    const problems: Problem[] = [];
+    return corpus.problems;
+}
 
-    for (const relPath of files) {
-        const fullPath = path.join(problemsDir, relPath);
-        try {
-            const raw = fs.readFileSync(fullPath, "utf8");
-            const obj = JSON.parse(raw);
-            const parsed = ProblemSchema.parse(obj);
-            problems.push(parsed);
-        } catch (e) {
-            console.error(`Failed to load problem: ${relPath}`, e);
-            // Skip invalid files, don't crash
-        }
-    }
+/**
+ * How many problems contributors wrote: each template counts once,
+ * not once per variant.
+ */
+export function distinctProblemCount(): number {
+    return corpus.problems.length - Object.keys(corpus.variantTemplates).length + corpusTemplateCount();
+}
 
-    problemsList = problems;
-    return problems;
+/** SVG source of a figure the problem lists, checked when the corpus was built. */
+export function problemFigure(problemId: string, file: string): string | undefined {
+    return corpus.figures[`${problemId}/${file}`];
 }
 
 /**
- * Clear cached problems (useful for testing).
+ * Key for a problem's row in problem_ratings.
+ * Template variants share their template's rating; other problems use their own id.
  */
-export function clearProblemsCache(): void {
-    problemsMap = null;
-    problemsList = null;
+export function ratingKey(problemId: string): string {
+    return corpus.variantTemplates[problemId] ?? problemId;
+}
+
+/** Files left out of the corpus when it was built, and why. */
+export function corpusDiagnostics(): LoadDiagnostic[] {
+    return corpus.diagnostics;
+}
+
+/** Problem counts per topic. */
+export function corpusTopicCounts(): Record<string, number> {
+    return Object.fromEntries(Object.entries(corpus.byTopic).map(([topic, indexes]) => [topic, indexes.length]));
+}
+
+/** Number of templates the corpus's variants came from. */
+export function corpusTemplateCount(): number {
+    return new Set(Object.values(corpus.variantTemplates)).size;
 }
@@ -0,0 +1,43 @@
+/**
+ * License and attribution rules from docs/DATASET_RULES.md.
+ */
+import type { License, Provenance } from "@/data/schema/problem.schema";
+
+export const LICENSE_URLS: Record<License, string> = {
+    "CC0": "https://creativecommons.org/publicdomain/zero/1.0/",
+    "CC BY 4.0": "https://creativecommons.org/licenses/by/4.0/",
+    "CC BY-SA 4.0": "https://creativecommons.org/licenses/by-sa/4.0/",
+};
+
+/** CC BY and CC BY-SA require crediting the original author; CC0 doesn't. */
+export function requiresAttribution(license: License): boolean {
+    return license !== "CC0";
+}
+
+/**
+ * Why a problem's attribution is insufficient, or null if it's fine.
+ * Original work is credited to its `author`; anything else under CC BY
+ * must name the original author.
+ */
+export function missingAttribution(problem: { provenance: Provenance; license: License }): string | null {
+    const { provenance, license } = problem;
+    if (!requiresAttribution(license) || provenance.origin === "original") return null;
+    if (!provenance.original_author) return `${license} requires provenance.original_author`;
+    return null;
+}
+
+/** One-line source for search listings: "original" or the citation. */
+export function sourceLabel(provenance: Provenance): string {
+    if (provenance.origin === "original") return "original";
+    return provenance.citation ?? provenance.url ?? provenance.origin;
+}
+
+/** "Euclid, Elements (c. 300 BCE)"-style credit line, without the license. */
+export function attributionLine(provenance: Provenance, author: string): string {
+    if (provenance.origin === "original") return `Original problem by ${author}`;
+
+    const year = provenance.year === undefined ? null : provenance.year < 0 ? `${-provenance.year} BCE` : String(provenance.year);
+    const credit = [provenance.original_author, provenance.citation].filter(Boolean).join(", ");
+    const verb = provenance.origin === "adapted" ? "Adapted from" : "From";
+    return `${verb} ${credit || "a cited source"}${year ? ` (${year})` : ""}, added by ${author}`;
+}
@@ -0,0 +1,65 @@
+/**
+ * Skill taxonomy: finer-grained tags than `topic`, grouped by topic,
+ * plus the prerequisite graph between skills. Checked-in sources of truth
+ * are data/schema/skills.json and data/schema/skill-prerequisites.json.
+ */
+import taxonomy from "@/data/schema/skills.json";
+import prerequisites from "@/data/schema/skill-prerequisites.json";
+
+export interface Skill {
+    id: string;
+    name: string;
+    topic: string;
+}
+
+const SKILLS = new Map<string, Skill>(
+    Object.entries(taxonomy as Record<string, Record<string, string>>).flatMap(([topic, skills]) =>
+        Object.entries(skills).map(([id, name]): [string, Skill] => [id, { id, name, topic }])
+    )
+);
+
+export function getSkill(id: string): Skill | undefined {
+    return SKILLS.get(id);
+}
+
+/** Display name, falling back to the id for tags not in the taxonomy. */
+export function skillName(id: string): string {
+    return SKILLS.get(id)?.name ?? id;
+}
+
+const PREREQUISITES = prerequisites as Record<string, string[]>;
+
+/** Direct prerequisites of a skill (empty for skills with none). */
+export function prerequisitesOf(id: string): string[] {
+    return PREREQUISITES[id] ?? [];
+}
+
+/**
+ * Find a cycle in the prerequisite graph, e.g. ["a", "b", "a"].
+ * Returns null when the graph is a DAG.
+ */
+export function findPrerequisiteCycle(graph: Record<string, string[]> = PREREQUISITES): string[] | null {
+    const state = new Map<string, "visiting" | "done">();
+    const stack: string[] = [];
+
+    const visit = (id: string): string[] | null => {
+        if (state.get(id) === "done") return null;
+        if (state.get(id) === "visiting") return [...stack.slice(stack.indexOf(id)), id];
+
+        state.set(id, "visiting");
+        stack.push(id);
+        for (const next of graph[id] ?? []) {
+            const cycle = visit(next);
+            if (cycle) return cycle;
+        }
+        stack.pop();
+        state.set(id, "done");
+        return null;
+    };
+
+    for (const id of Object.keys(graph)) {
+        const cycle = visit(id);
+        if (cycle) return cycle;
+    }
+    return null;
+}
@@ -0,0 +1,164 @@
+/**
+ * Expand problem templates into deterministic variants.
+ * No "server-only" so validate-dataset can expand templates the same way.
+ */
+import { PROBLEM_SCHEMA_VERSION, type Problem, type ProblemTemplate } from "@/data/schema/problem.schema";
+import { evaluate, mulberry32, parseExpression, type ExprNode } from "./answers/math-expr";
+
+// Draws per variant before a template's constraints are considered unsatisfiable
+const MAX_DRAWS = 200;
+
+export class TemplateError extends Error { }
+
+/** Variant ids embed their seed: aom_arithmetic_times_table_s7 */
+export function variantId(templateId: string, seed: number): string {
+    return `${templateId}_s${seed}`;
+}
+
+/** FNV-1a, to turn "templateId:seed" into a PRNG seed. */
+function hashString(s: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < s.length; i++) {
+        h ^= s.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+function decimals(step: number): number {
+    const s = String(step);
+    return s.includes(".") ? s.length - s.indexOf(".") - 1 : 0;
+}
+
+/** Readable number for prompts: no float noise like 0.30000000000000004. */
+function formatNumber(x: number): string {
+    return String(Number(x.toPrecision(12)));
+}
+
+interface CompiledTemplate {
+    template: ProblemTemplate;
+    names: string[];
+    answer: ExprNode;
+    constraints: ((scope: Record<string, number>) => boolean)[];
+}
+
+function compileExpr(source: string, names: string[], where: string): ExprNode {
+    const node = parseExpression(source, names);
+    if (!node) throw new TemplateError(`Cannot parse ${where}: "${source}"`);
+    return node;
+}
+
+const COMPARATORS: Record<string, (a: number, b: number) => boolean> = {
+    "<=": (a, b) => a <= b,
+    ">=": (a, b) => a >= b,
+    "!=": (a, b) => Math.abs(a - b) > 1e-9,
+    "==": (a, b) => Math.abs(a - b) <= 1e-9,
+    "<": (a, b) => a < b,
+    ">": (a, b) => a > b,
+};
+
+/** "a > b", "a + b <= 10" or "integer(a / b)" */
+function compileConstraint(source: string, names: string[]): (scope: Record<string, number>) => boolean {
+    const integer = /^integer\((.+)\)$/.exec(source.trim());
+    if (integer) {
+        const node = compileExpr(integer[1], names, "constraint");
+        return (scope) => {
+            const v = evaluate(node, scope);
+            return Math.abs(v - Math.round(v)) <= 1e-9;
+        };
+    }
+
+    const parts = source.split(/(<=|>=|!=|==|<|>)/);
+    if (parts.length !== 3) throw new TemplateError(`Constraint must compare two expressions: "${source}"`);
+    const left = compileExpr(parts[0], names, "constraint");
+    const right = compileExpr(parts[2], names, "constraint");
+    const compare = COMPARATORS[parts[1]];
+    return (scope) => compare(evaluate(left, scope), evaluate(right, scope));
+}
+
+function compile(template: ProblemTemplate): CompiledTemplate {
+    const names = Object.keys(template.params);
+    return {
+        template,
+        names,
+        answer: compileExpr(template.answer.formula, names, "answer formula"),
+        constraints: template.constraints.map((c) => compileConstraint(c, names)),
+    };
+}
+
+/** Draw parameters for one seed, or null if no draw satisfies the constraints. */
+function drawParams(compiled: CompiledTemplate, seed: number): Record<string, number> | null {
+    const rand = mulberry32(hashString(`${compiled.template.id}:${seed}`));
+
+    for (let draw = 0; draw < MAX_DRAWS; draw++) {
+        const scope: Record<string, number> = {};
+        for (const name of compiled.names) {
+            const { min, max, step } = compiled.template.params[name];
+            const count = Math.floor((max - min) / step + 1e-9) + 1;
+            const value = min + step * Math.floor(rand() * count);
+            scope[name] = Number(value.toFixed(decimals(step)));
+        }
+        if (compiled.constraints.every((holds) => holds(scope))) return scope;
+    }
+    return null;
+}
+
+function fillPrompt(prompt: string, names: string[], scope: Record<string, number>): string {
+    return prompt.replace(/\{\{([^}]+)\}\}/g, (_m, source: string) => {
+        const value = evaluate(compileExpr(source, names, "placeholder"), scope);
+        if (!Number.isFinite(value)) throw new TemplateError(`Placeholder {{${source}}} is not a finite number`);
+        return formatNumber(value);
+    });
+}
+
+function buildVariant(compiled: CompiledTemplate, seed: number, scope: Record<string, number>): Problem {
+    const { template } = compiled;
+    const value = evaluate(compiled.answer, scope);
+    if (!Number.isFinite(value)) {
+        throw new TemplateError(`Answer formula is not finite for ${JSON.stringify(scope)}`);
+    }
+
+    return {
+        schema_version: PROBLEM_SCHEMA_VERSION,
+        id: variantId(template.id, seed),
+        topic: template.topic,
+        skills: template.skills,
+        seed_difficulty: template.seed_difficulty,
+        prompt: fillPrompt(template.prompt, compiled.names, scope),
+        answer: { kind: "number", value: Number(formatNumber(value)), tolerance: template.answer.tolerance },
+        status: template.status,
+        provenance: template.provenance,
+        license: template.license,
+        author: template.author,
+    };
+}
+
+/**
+ * Expand a template into `variants` problems with distinct parameters.
+ * Seeds count up from 1, skipping seeds that repeat an earlier variant,
+ * so existing variant ids stay stable when `variants` grows.
+ * Throws TemplateError when the template can't produce enough variants.
+ */
+export function expandTemplate(template: ProblemTemplate): Problem[] {
+    const compiled = compile(template);
+    const seen = new Set<string>();
+    const problems: Problem[] = [];
+
+    for (let seed = 1; problems.length < template.variants && seed <= template.variants * 20; seed++) {
+        const scope = drawParams(compiled, seed);
+        if (!scope) continue;
+
+        const key = JSON.stringify(scope);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        problems.push(buildVariant(compiled, seed, scope));
+    }
+
+    if (problems.length < template.variants) {
+        throw new TemplateError(
+            `Only ${problems.length} of ${template.variants} variants could be generated; widen params or relax constraints`
+        );
+    }
+    return problems;
+}
@@ -0,0 +1,62 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { readCorpus, type CompiledCorpus } from "../lib/corpus-loader";
+
+const outFile = path.join(process.cwd(), "data/generated/corpus.js");
+
+/**
+ * Compile data/problems and data/templates into data/generated/corpus.js,
+ * a single module with the parsed problems, their SVG figures, id/topic indexes
+ * and a content hash.
+ * Files that don't load are skipped and recorded as diagnostics, which
+ * /api/admin/corpus-health reports.
+ *
+ *   pnpm corpus:build            # skip bad files (dev and production builds)
+ *   pnpm corpus:build --strict   # fail without writing anything
+ */
+function main() {
+    const strict = process.argv.includes("--strict");
+    const source = readCorpus();
+
+    for (const d of source.diagnostics) {
+        console.error(`[${d.kind}] ${d.file}: ${d.message}\n`);
+    }
+    if (source.diagnostics.length > 0) {
+        if (strict) {
+            console.error(`${source.diagnostics.length} load problems; corpus not written.`);
+            process.exit(1);
+        }
+        console.warn(`${source.diagnostics.length} load problems; those files are left out of the corpus.`);
+    }
+
+    const byId: Record<string, number> = {};
+    const byTopic: Record<string, number[]> = {};
+    source.problems.forEach((problem, i) => {
+        byId[problem.id] = i;
+        (byTopic[problem.topic] ??= []).push(i);
+    });
+
+    const hash = crypto.createHash("sha256").update(JSON.stringify([source.problems, source.figures])).digest("hex").slice(0, 16);
+
+    const corpus: CompiledCorpus = {
+        hash,
+        problems: source.problems,
+        byId,
+        byTopic,
+        figures: source.figures,
+        variantTemplates: source.variantTemplates,
+        diagnostics: source.diagnostics,
+    };
+
+    fs.mkdirSync(path.dirname(outFile), { recursive: true });
+    fs.writeFileSync(
+        outFile,
+        `// Generated by scripts/build-corpus.ts from data/problems and data/templates. Do not edit.\nexport default ${JSON.stringify(corpus)};\n`
+    );
+
+    const kb = Math.round(fs.statSync(outFile).size / 1024);
+    console.log(`Corpus ${hash}: ${source.problems.length} problems in ${Object.keys(byTopic).length} topics (${kb} KB)`);
+}
+
+main();
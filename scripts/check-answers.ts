@@ -0,0 +1,118 @@
+import { complexClose, parseComplex } from "../lib/answers/complex";
+import { expressionsEquivalent, parseExpression } from "../lib/answers/math-expr";
+import { numberMatches, numericInputValues } from "../lib/answers/numeric";
+import { parseTuple } from "../lib/answers/tuple";
+import { parseUnit } from "../lib/answers/units";
+
+/**
+ * Probes for the answer parsers: learner inputs they have misread before.
+ * Kept out of dataset:validate so a parser regression doesn't look like bad data.
+ *
+ *   pnpm answers:check
+ */
+
+const failures: string[] = [];
+let probes = 0;
+
+function check(ok: boolean, message: string): void {
+    probes++;
+    if (!ok) failures.push(message);
+}
+
+// Expressions: powers after function calls, and function arguments without parentheses
+const EXPRESSION_PROBES: [input: string, equivalentTo: string][] = [
+    ["sin(x)^2 + cos(x)^2", "1"],
+    ["ln(x)^2", "ln(x) * ln(x)"],
+    ["\\sin{x}^2 + \\cos{x}^2", "1"],
+    ["sin^2 x", "sin(x) * sin(x)"],
+    ["sin 2x", "2 sin(x) cos(x)"],
+    ["sin x^2", "sin(x^2)"],
+];
+for (const [input, equivalentTo] of EXPRESSION_PROBES) {
+    const actual = parseExpression(input, ["x"]);
+    const expected = parseExpression(equivalentTo, ["x"]);
+    check(
+        !!actual && !!expected && expressionsEquivalent(expected, actual, ["x"]),
+        `Expression: "${input}" should equal "${equivalentTo}"`
+    );
+}
+
+// Numeric input: adjacent numbers must not multiply into a gradable value
+const NUMERIC_PROBES: [input: string, values: number[]][] = [
+    ["1/2", [0.5]],
+    ["1,000", [1000]],
+    ["3,5", [3.5]],
+    ["50%", [0.5, 50]],
+    ["1 000", []],
+    ["12 5", []],
+    ["1.2.3", []],
+    ["3 4%", []],
+];
+for (const [input, values] of NUMERIC_PROBES) {
+    const actual = numericInputValues(input);
+    check(
+        actual.length === values.length && actual.every((v, i) => v === values[i]),
+        `Number: "${input}" parsed as [${actual.join(", ")}], expected [${values.join(", ")}]`
+    );
+}
+
+// Percent questions store the percentage itself, so "25%" must grade as 25
+const PERCENT_PROBES: [problemId: string, input: string, value: number][] = [
+    ["aom_arithmetic_9726", "25%", 25],
+    ["aom_arithmetic_9727", "25%", 25],
+    ["aom_arithmetic_9728", "75%", 75],
+    ["aom_arithmetic_9729", "16%", 16],
+    ["aom_arithmetic_9732", "20%", 20],
+    ["aom_arithmetic_9733", "75%", 75],
+    ["aom_arithmetic_9740", "12.5%", 12.5],
+    ["aom_arithmetic_9741", "20%", 20],
+];
+for (const [problemId, input, value] of PERCENT_PROBES) {
+    check(
+        numericInputValues(input).some((v) => numberMatches({ value, tolerance: 0 }, v)),
+        `Number: "${input}" should be accepted for ${problemId} (answer ${value})`
+    );
+}
+
+// Tuples: outer delimiters come in matching pairs or not at all
+const TUPLE_PROBES: [input: string, parses: boolean][] = [
+    ["(2, -3)", true],
+    ["\\langle 1, 2 \\rangle", true],
+    ["2, -3", true],
+    ["(2, -3", false],
+    ["2, -3)", false],
+    ["[2, -3⟩", false],
+];
+for (const [input, parses] of TUPLE_PROBES) {
+    check((parseTuple(input) !== null) === parses, `Tuple: "${input}" should ${parses ? "" : "not "}parse`);
+}
+
+// Units: case is ignored except where it changes the unit
+const UNIT_PROBES: [input: string, sameAs: string | null][] = [
+    ["KM", "km"],
+    ["Km", "km"],
+    ["KG", "kg"],
+    ["Hours", "h"],
+    ["M", null],
+    ["S", null],
+    ["Mg", null],
+];
+for (const [input, sameAs] of UNIT_PROBES) {
+    const actual = parseUnit(input);
+    const ok = sameAs === null ? actual === null : actual?.factor === parseUnit(sameAs)?.factor;
+    check(ok, `Unit: "${input}" should ${sameAs === null ? "be unknown" : `equal ${sameAs}`}`);
+}
+
+// Complex: the forms docs/CONTRIBUTING.md lists for 3 + 4i
+for (const input of ["3+4i", "4i+3", "5e^{0.9273i}", "5 cis(53.13°)"]) {
+    const actual = parseComplex(input);
+    check(!!actual && complexClose({ re: 3, im: 4 }, actual, 0.01), `Complex: "${input}" should equal 3+4i`);
+}
+
+if (failures.length > 0) {
+    for (const failure of failures) console.error(failure);
+    console.error(`\n${failures.length} of ${probes} answer parser probes failed.`);
+    process.exit(1);
+}
+
+console.log(`Answer parsers OK. ${probes} probes passed.`);
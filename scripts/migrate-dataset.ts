@@ -0,0 +1,80 @@
+import fs from "node:fs";
+import path from "node:path";
+import { globSync } from "glob";
+import { PROBLEM_SCHEMA_VERSION } from "../data/schema/problem.schema";
+import { migrateProblem, PROBLEM_SCHEMAS, schemaVersionOf } from "../data/schema/versions";
+
+const problemsDir = path.join(process.cwd(), "data/problems");
+
+/**
+ * Rewrite problem files from older schema versions to a newer one.
+ *
+ *   pnpm dataset:migrate             # upgrade everything to the current version
+ *   pnpm dataset:migrate --to 2      # stop at a specific version
+ *   pnpm dataset:migrate --dry-run   # report what would change, write nothing
+ *
+ * Every file is migrated and validated before any is written, so a failure
+ * leaves the corpus untouched.
+ */
+function main() {
+    const args = process.argv.slice(2);
+    const dryRun = args.includes("--dry-run");
+    const toIndex = args.indexOf("--to");
+    const target = toIndex >= 0 ? Number(args[toIndex + 1]) : PROBLEM_SCHEMA_VERSION;
+
+    if (!Number.isInteger(target) || !PROBLEM_SCHEMAS[target]) {
+        console.error(`Unknown target schema version: ${args[toIndex + 1]}`);
+        process.exit(1);
+    }
+
+    const files = globSync("**/*.json", { cwd: problemsDir });
+    const pending: { relPath: string; from: number; json: string }[] = [];
+    let errors = 0;
+
+    for (const relPath of files) {
+        const fullPath = path.join(problemsDir, relPath);
+        let obj: Record<string, unknown>;
+        try {
+            obj = JSON.parse(fs.readFileSync(fullPath, "utf8"));
+        } catch {
+            console.error(`Invalid JSON in ${relPath}`);
+            errors++;
+            continue;
+        }
+
+        const from = schemaVersionOf(obj);
+        if (from >= target) continue;
+
+        try {
+            const migrated = migrateProblem(obj, from, target);
+            const parsed = PROBLEM_SCHEMAS[target].safeParse(migrated);
+            if (!parsed.success) {
+                console.error(`Schema error in ${relPath} after migrating ${from} -> ${target}`);
+                console.error(parsed.error.issues);
+                errors++;
+                continue;
+            }
+            pending.push({ relPath, from, json: `${JSON.stringify(migrated, null, 4)}\n` });
+        } catch (e) {
+            console.error(`Failed to migrate ${relPath}: ${(e as Error).message}`);
+            errors++;
+        }
+    }
+
+    if (errors > 0) {
+        console.error(`\n${errors} files could not be migrated; nothing was written.`);
+        process.exit(1);
+    }
+
+    for (const { relPath, from, json } of pending) {
+        if (dryRun) {
+            console.log(`[DRY RUN] ${relPath}: ${from} -> ${target}`);
+        } else {
+            fs.writeFileSync(path.join(problemsDir, relPath), json);
+        }
+    }
+
+    console.log(`${dryRun ? "Would migrate" : "Migrated"} ${pending.length} of ${files.length} files to schema_version ${target}.`);
+}
+
+main();
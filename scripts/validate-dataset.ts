@@ -1,9 +1,28 @@
 import fs from "node:fs";
 import path from "node:path";
 import { globSync } from "glob";
-import { ProblemSchema } from "../data/schema/problem.schema";
+import { PROBLEM_SCHEMA_VERSION, ProblemSchema, ProblemTemplateSchema } from "../data/schema/problem.schema";
+import { parseProblem } from "../data/schema/versions";
+import { parseExpression } from "../lib/answers/math-expr";
+import { parseIntervalUnion } from "../lib/answers/interval";
+import { parseUnit } from "../lib/answers/units";
+import { toleranceWarning } from "../lib/answers/numeric";
+import { normalizeExactAnswer } from "../lib/answers/exact-text";
+import { problemParts } from "../lib/answers/parts";
+import { extractMath, renderMathStrict } from "../lib/markdown";
+import { findPrerequisiteCycle, getSkill } from "../lib/skills";
+import { checkSvg, figureBelongsTo } from "../lib/figures";
+import { expandTemplate } from "../lib/templates";
+import { translationMathMismatch } from "../lib/locale";
+import { missingAttribution } from "../lib/provenance";
+import skillTaxonomy from "../data/schema/skills.json";
+import skillPrerequisites from "../data/schema/skill-prerequisites.json";
 
 const problemsDir = path.join(process.cwd(), "data/problems");
+const templatesDir = path.join(process.cwd(), "data/templates");
+
+// Print how each exact answer is normalized before comparison
+const showNormalized = process.argv.includes("--show-normalized");
 
 function fail(msg: string): never {
     console.error(`${msg}`);
@@ -22,6 +41,31 @@ function normalizePrompt(prompt: string): string {
         .trim();
 }
 
+// Skill ids must be unique across topics, since problems tag them without a topic
+const skillTopics = new Map<string, string>();
+for (const [topic, skills] of Object.entries(skillTaxonomy as Record<string, Record<string, string>>)) {
+    for (const id of Object.keys(skills)) {
+        if (skillTopics.has(id)) {
+            fail(`Skill "${id}" is listed under both ${skillTopics.get(id)} and ${topic} in data/schema/skills.json`);
+        }
+        skillTopics.set(id, topic);
+    }
+}
+
+// Prerequisites must name known skills and form a DAG
+for (const [id, prereqs] of Object.entries(skillPrerequisites as Record<string, string[]>)) {
+    for (const skill of [id, ...prereqs]) {
+        if (!skillTopics.has(skill)) {
+            fail(`Unknown skill "${skill}" in data/schema/skill-prerequisites.json`);
+        }
+    }
+}
+
+const cycle = findPrerequisiteCycle();
+if (cycle) {
+    fail(`Prerequisite cycle in data/schema/skill-prerequisites.json: ${cycle.join(" -> ")}`);
+}
+
 // Find all JSON files in data/problems/**/*.json
 const files = globSync("**/*.json", { cwd: problemsDir });
 
@@ -32,8 +76,10 @@ if (files.length === 0) {
 const ids = new Set<string>();
 const prompts = new Map<string, string>(); // normalized prompt -> first file with it
 const exactPrompts = new Map<string, string>(); // exact prompt -> first file with it
+const referencedFigures = new Set<string>(); // relative paths of SVGs used by some problem
 
 let validCount = 0;
+let outdatedCount = 0; // files on an older schema_version
 
 for (const relPath of files) {
     const fullPath = path.join(problemsDir, relPath);
@@ -52,14 +98,18 @@ for (const relPath of files) {
         fail(`Invalid JSON in ${relPath}`);
     }
 
-    const parsed = ProblemSchema.safeParse(obj);
+    // Older schema versions are still accepted, checked against their own schema
+    const parsed = parseProblem(obj);
     if (!parsed.success) {
-        console.error(`Schema error in ${relPath}`);
+        console.error(`Schema error in ${relPath} (schema_version ${parsed.version})`);
         console.error(parsed.error.issues);
         process.exit(1);
     }
 
     const problem = parsed.data;
+    if (parsed.version < PROBLEM_SCHEMA_VERSION) {
+        outdatedCount++;
+    }
 
     // Validate filename matches ID
     const expectedFilename = `${problem.id}.json`;
@@ -68,6 +118,125 @@ for (const relPath of files) {
         fail(`Filename mismatch: ${relPath} should be named ${expectedFilename}`);
     }
 
+    // CC BY and CC BY-SA content must credit its original author
+    const attribution = missingAttribution(problem);
+    if (attribution) {
+        fail(`Missing attribution in ${relPath}: ${attribution}`);
+    }
+
+    if (problem.skills) {
+        if (new Set(problem.skills).size !== problem.skills.length) {
+            fail(`Duplicate skill in ${relPath}: ${problem.skills.join(", ")}`);
+        }
+        for (const id of problem.skills) {
+            if (!getSkill(id)) {
+                fail(`Unknown skill "${id}" in ${relPath} (add it to data/schema/skills.json first)`);
+            }
+        }
+    }
+
+    // Every answer (or every part's answer) must be gradable
+    for (const { label, answer } of problemParts(problem)) {
+        const where = label ? `${relPath} (part ${label})` : relPath;
+
+        // Expression answers must be gradable with their declared variables
+        if (answer.kind === "expression" && !parseExpression(answer.value, answer.variables)) {
+            fail(`Unparseable expression answer in ${where}: "${answer.value}" (variables: ${answer.variables.join(", ") || "none"})`);
+        }
+
+        if (answer.kind === "interval" && !parseIntervalUnion(answer.value, answer.variable)) {
+            fail(`Unparseable interval answer in ${where}: "${answer.value}"`);
+        }
+
+        if (answer.kind === "quantity" && !parseUnit(answer.unit)) {
+            fail(`Unknown unit in ${where}: "${answer.unit}"`);
+        }
+
+        if (answer.kind === "exact") {
+            const seen = new Map<string, string>(); // normalized -> first form
+            for (const form of [answer.value, ...answer.accepted]) {
+                const normalized = normalizeExactAnswer(form);
+                if (!normalized) {
+                    fail(`Exact answer in ${where} is empty after normalization: "${form}"`);
+                }
+                if (seen.has(normalized)) {
+                    console.warn(`Redundant accepted answer in ${where}: "${form}" normalizes like "${seen.get(normalized)}" ("${normalized}")\n`);
+                } else {
+                    seen.set(normalized, form);
+                }
+                if (showNormalized) {
+                    console.log(`${where}: "${form}" -> "${normalized}"`);
+                }
+            }
+        }
+
+        // Model solutions and rubric items are rendered like written solutions
+        if (answer.kind === "free_response") {
+            for (const text of [answer.model_solution, ...answer.rubric]) {
+                for (const segment of extractMath(text)) {
+                    try {
+                        renderMathStrict(segment);
+                    } catch (err) {
+                        fail(`Math in free_response answer of ${where} does not render: "${segment.tex}"\n  ${(err as Error).message}`);
+                    }
+                }
+            }
+        }
+
+        if (answer.kind === "number") {
+            const warning = toleranceWarning(answer);
+            if (warning) {
+                console.warn(`Implausible tolerance in ${where}: ${warning}\n`);
+            }
+        }
+    }
+
+    // Figures live next to the problem JSON and must be safe to serve
+    for (const figure of problem.figures ?? []) {
+        if (!figureBelongsTo(problem.id, figure.file)) {
+            fail(`Figure "${figure.file}" in ${relPath} must be named after the problem (${problem.id}_...svg)`);
+        }
+        const figurePath = path.join(path.dirname(relPath), figure.file);
+        let svg: string;
+        try {
+            svg = fs.readFileSync(path.join(problemsDir, figurePath), "utf8");
+        } catch {
+            fail(`Missing figure for ${relPath}: ${figurePath}`);
+        }
+        const reason = checkSvg(svg);
+        if (reason) {
+            fail(`Unsafe figure ${figurePath}: ${reason}`);
+        }
+        referencedFigures.add(figurePath);
+    }
+
+    // Written solutions: every math segment must render
+    if (problem.solution) {
+        for (const segment of extractMath(problem.solution)) {
+            try {
+                renderMathStrict(segment);
+            } catch (err) {
+                fail(`Math in solution of ${relPath} does not render: "${segment.tex}"\n  ${(err as Error).message}`);
+            }
+        }
+    }
+
+    // Translations must carry the same math as the English text they replace
+    for (const [locale, translation] of Object.entries(problem.translations ?? {})) {
+        const checks: [string, string | undefined, string | undefined][] = [
+            ["prompt", problem.prompt, translation.prompt],
+            ["prompt_latex", problem.prompt_latex ?? problem.prompt, translation.prompt_latex],
+            ["solution", problem.solution, translation.solution],
+        ];
+        for (const [field, original, translated] of checks) {
+            if (original === undefined || translated === undefined) continue;
+            const mismatch = translationMathMismatch(original, translated);
+            if (mismatch) {
+                fail(`Math in ${locale} ${field} of ${relPath} does not match the original: ${mismatch}`);
+            }
+        }
+    }
+
     // Check for duplicate IDs
     if (ids.has(problem.id)) {
         fail(`Duplicate id "${problem.id}" in ${relPath}`);
@@ -98,5 +267,94 @@ for (const relPath of files) {
     validCount++;
 }
 
-console.log(`Dataset OK. Problems: ${validCount} files validated.`);
+// Templates must expand into enough distinct variants, which then share the duplicate checks above
+let templateCount = 0;
+let variantCount = 0;
+
+for (const relPath of globSync("**/*.json", { cwd: templatesDir })) {
+    let obj: unknown;
+    try {
+        obj = JSON.parse(fs.readFileSync(path.join(templatesDir, relPath), "utf8"));
+    } catch {
+        fail(`Invalid JSON in templates/${relPath}`);
+    }
+
+    const parsed = ProblemTemplateSchema.safeParse(obj);
+    if (!parsed.success) {
+        console.error(`Schema error in templates/${relPath}`);
+        console.error(parsed.error.issues);
+        process.exit(1);
+    }
+
+    const template = parsed.data;
+    if (path.basename(relPath) !== `${template.id}.json`) {
+        fail(`Filename mismatch: templates/${relPath} should be named ${template.id}.json`);
+    }
+    if (ids.has(template.id)) {
+        fail(`Duplicate id "${template.id}" in templates/${relPath}`);
+    }
+    ids.add(template.id);
+
+    const templateAttribution = missingAttribution(template);
+    if (templateAttribution) {
+        fail(`Missing attribution in templates/${relPath}: ${templateAttribution}`);
+    }
+
+    for (const id of template.skills ?? []) {
+        if (!getSkill(id)) {
+            fail(`Unknown skill "${id}" in templates/${relPath} (add it to data/schema/skills.json first)`);
+        }
+    }
+
+    let variants;
+    try {
+        variants = expandTemplate(template);
+    } catch (err) {
+        fail(`Template templates/${relPath} does not expand: ${(err as Error).message}`);
+    }
+
+    for (const variant of variants) {
+        const where = `templates/${relPath} (${variant.id})`;
+
+        const check = ProblemSchema.safeParse(variant);
+        if (!check.success) {
+            console.error(`Schema error in ${where}`);
+            console.error(check.error.issues);
+            process.exit(1);
+        }
+
+        if (ids.has(variant.id)) {
+            fail(`Duplicate id "${variant.id}" from ${where}`);
+        }
+        ids.add(variant.id);
+
+        if (exactPrompts.has(variant.prompt)) {
+            fail(`Duplicate problem detected!\n  File: ${where}\n  Matches: ${exactPrompts.get(variant.prompt)}\n  (Exact prompt match)`);
+        }
+        exactPrompts.set(variant.prompt, where);
+
+        const normalizedPrompt = normalizePrompt(variant.prompt);
+        if (prompts.has(normalizedPrompt)) {
+            console.warn(`Potential duplicate in ${where}`);
+            console.warn(`Similar to: ${prompts.get(normalizedPrompt)}`);
+            console.warn(`Review manually to confirm.\n`);
+        } else {
+            prompts.set(normalizedPrompt, where);
+        }
+        variantCount++;
+    }
+    templateCount++;
+}
+
+for (const svgPath of globSync("**/*.svg", { cwd: problemsDir })) {
+    if (!referencedFigures.has(svgPath)) {
+        console.warn(`Unused figure: ${svgPath} is not listed in any problem's figures\n`);
+    }
+}
+
+if (outdatedCount > 0) {
+    console.warn(`${outdatedCount} files use an older schema_version; run pnpm dataset:migrate to upgrade them to ${PROBLEM_SCHEMA_VERSION}\n`);
+}
+
+console.log(`Dataset OK. Problems: ${validCount} files validated. Templates: ${templateCount} (${variantCount} variants).`);
 
@@ -0,0 +1,14 @@
+-- Migration: Allowed attempt outcomes
+-- Run this in Supabase SQL Editor
+
+-- 'partial': a multi-part problem with some but not all parts correct (see attempt_scores)
+-- 'self_assessed': a free_response answer the learner scored against its rubric;
+--   score is the fraction of rubric items ticked. Unverified, so it moves no
+--   ratings, is left out of skill mastery and never marks a problem solved.
+alter table public.attempts
+  drop constraint if exists attempts_outcome_check;
+
+-- not valid: existing rows aren't rechecked, new ones are
+alter table public.attempts
+  add constraint attempts_outcome_check
+  check (outcome in ('correct', 'partial', 'wrong', 'giveup', 'self_assessed')) not valid;
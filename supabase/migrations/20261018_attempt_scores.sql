@@ -0,0 +1,13 @@
+-- Migration: Fractional scores for multi-part problems
+-- Run this in Supabase SQL Editor
+
+-- 1. Fraction of parts answered correctly (1 or 0 for single-answer problems)
+alter table public.attempts
+  add column if not exists score real check (score >= 0 and score <= 1);
+
+-- 2. Backfill existing attempts from their outcome
+update public.attempts
+  set score = case when outcome = 'correct' then 1 else 0 end
+  where score is null;
+
+-- Note: outcome may now also be 'partial' (some but not all parts correct)
@@ -0,0 +1,18 @@
+-- Migration: Progressive hints
+-- Run this in Supabase SQL Editor
+
+-- 1. One row per hint revealed during a session's current visit to a problem
+--    (app/api/attempt deletes them once the visit ends; attempts keep the count)
+create table if not exists public.hint_reveals (
+  session_hash text not null,
+  problem_id text not null check (problem_id ~ '^aom_[a-z0-9_]+$'),
+  hint_index integer not null check (hint_index >= 0),
+  revealed_at timestamptz not null default now(),
+  primary key (session_hash, problem_id, hint_index)
+);
+
+alter table public.hint_reveals enable row level security;
+
+-- 2. Hints revealed before each attempt (discounts the Elo update)
+alter table public.attempts
+  add column if not exists hints_used integer not null default 0;
@@ -0,0 +1,127 @@
+-- Migration: Index translated prompts in problems_public
+-- Run in Supabase SQL Editor, then re-run /api/admin/sync-problems
+
+-- 1. Translated prompts, LaTeX stripped, all locales in one string
+alter table public.problems_public
+  add column if not exists translations_plain text not null default '';
+
+-- 2. Rebuild the generated search vector to include them (drops its index too).
+--    Translations use the 'simple' config: English stemming and stopwords
+--    would mangle Spanish or French words.
+alter table public.problems_public drop column if exists search_tsv;
+
+alter table public.problems_public
+  add column search_tsv tsvector generated always as (
+    to_tsvector('english', coalesce(topic,'') || ' ' || coalesce(prompt_plain,''))
+      || to_tsvector('simple', coalesce(translations_plain,''))
+  ) stored;
+
+create index if not exists problems_public_search_idx
+  on public.problems_public using gin (search_tsv);
+
+-- 3. Short (trigram) queries match translations too
+create index if not exists problems_public_translations_plain_trgm
+  on public.problems_public using gin (translations_plain gin_trgm_ops);
+
+-- 4. Recreate search_problems so queries also match translations_plain:
+--    full-text queries try both configs, short queries use trigrams
+create or replace function public.search_problems(
+  q text,
+  topic_filter text default null,
+  skill_filter text default null,
+  lim int default 20,
+  off int default 0
+)
+returns table (
+  id text,
+  topic text,
+  skills text[],
+  prompt text,
+  seed_difficulty int,
+  solution_video_url text,
+  rank real
+)
+language sql
+stable
+security definer
+as $$
+  with cleaned as (
+    select
+      trim(coalesce(q, '')) as query,
+      websearch_to_tsquery('english', trim(coalesce(q, '')))
+        || websearch_to_tsquery('simple', trim(coalesce(q, ''))) as tsq
+  ),
+  -- Full-text search for longer queries
+  fts_results as (
+    select
+      p.id,
+      p.topic,
+      p.skills,
+      p.prompt,
+      p.seed_difficulty,
+      p.solution_video_url,
+      ts_rank_cd(p.search_tsv, c.tsq) as rank
+    from public.problems_public p, cleaned c
+    where c.query <> ''
+      and length(c.query) >= 3
+      and (topic_filter is null or p.topic = topic_filter)
+      and (skill_filter is null or skill_filter = any(p.skills))
+      and p.search_tsv @@ c.tsq
+  ),
+  -- Trigram search for short queries (< 3 chars) or fallback
+  trgm_results as (
+    select
+      p.id,
+      p.topic,
+      p.skills,
+      p.prompt,
+      p.seed_difficulty,
+      p.solution_video_url,
+      greatest(similarity(p.prompt_plain, c.query), similarity(p.translations_plain, c.query))::real as rank
+    from public.problems_public p, cleaned c
+    where c.query <> ''
+      and length(c.query) < 3
+      and (topic_filter is null or p.topic = topic_filter)
+      and (skill_filter is null or skill_filter = any(p.skills))
+      and (p.prompt_plain % c.query or p.translations_plain % c.query or p.id % c.query)
+  ),
+  -- Skill filter alone lists every tagged problem
+  skill_results as (
+    select
+      p.id,
+      p.topic,
+      p.skills,
+      p.prompt,
+      p.seed_difficulty,
+      p.solution_video_url,
+      0::real as rank
+    from public.problems_public p, cleaned c
+    where c.query = ''
+      and skill_filter is not null
+      and skill_filter = any(p.skills)
+      and (topic_filter is null or p.topic = topic_filter)
+  ),
+  -- Combine results, preferring FTS
+  combined as (
+    select * from fts_results
+    union all
+    select * from trgm_results
+    where not exists (select 1 from fts_results)
+    union all
+    select * from skill_results
+  )
+  select distinct on (combined.id)
+    combined.id,
+    combined.topic,
+    combined.skills,
+    combined.prompt,
+    combined.seed_difficulty,
+    combined.solution_video_url,
+    combined.rank
+  from combined
+  order by combined.id, combined.rank desc
+  limit lim offset off
+$$;
+
+-- Grant execute to anon and authenticated
+grant execute on function public.search_problems to anon, authenticated;